@@ -0,0 +1,342 @@
+import { promises as fs } from "fs";
+import { relative, resolve, sep } from "path";
+import { Worker } from "worker_threads";
+import type {
+    ChatCompletion,
+    ChatCompletionCreateParamsNonStreaming,
+    ChatCompletionMessageParam,
+    ChatCompletionTool,
+} from "openai/resources/chat/completions";
+import { loadConfigFile } from "./config.js";
+import { CompletionOptions, CompletionProgress, createChatCompletion } from "./completion.js";
+import { ModelConfig } from "./models.js";
+import { SCRATCHPAD_SECTIONS, ScratchpadSectionTitle, findSection, loadScratchpad } from "./scratchpad.js";
+import { JsonSchema, validateArguments } from "./tool-schema.js";
+import {
+    MAX_FILE_BYTES,
+    Sandbox,
+    createSandbox,
+    deniedBy,
+    expandGlob,
+    resolveSandboxPath,
+    resolveWorkspacePath
+} from "./workspace.js";
+
+// One function call made by the planner in agent mode
+export interface AgentStep {
+    iteration: number;
+    function: string;
+    arguments: unknown;
+    // The result sent back to the model, shortened to TRACE_RESULT_CHARS
+    result: string;
+    result_chars: number;
+    error?: boolean;
+}
+
+export interface AgentResult {
+    // The completion holding the final answer
+    completion: ChatCompletion;
+    // Model calls made, including the final one
+    iterations: number;
+    trace: AgentStep[];
+}
+
+interface AgentSettings {
+    max_iterations?: number;
+}
+
+export const DEFAULT_MAX_ITERATIONS = 8;
+export const MAX_AGENT_ITERATIONS = 50;
+
+function getAgentSettings(): AgentSettings {
+    return (loadConfigFile() as { agent?: AgentSettings }).agent ?? {};
+}
+
+// Default turn limit for agent mode, from the agent.max_iterations config key
+export function getDefaultMaxIterations(): number {
+    return getAgentSettings().max_iterations ?? DEFAULT_MAX_ITERATIONS;
+}
+
+const MAX_RESULT_CHARS = 20000;
+const TRACE_RESULT_CHARS = 2000;
+const MAX_READ_LINES = 400;
+const MAX_DIR_ENTRIES = 500;
+const MAX_GREP_MATCHES = 100;
+const MAX_GREP_FILES = 2000;
+const MAX_GREP_LINE_CHARS = 300;
+const GREP_TIMEOUT_MS = 5000;
+
+// Parameters of each function, in the schema subset tool-schema.ts validates
+const FUNCTION_SCHEMAS: Record<string, { description: string; parameters: JsonSchema }> = {
+    list_dir: {
+        description: "List the entries of a directory in the workspace. Directories end with a slash.",
+        parameters: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Directory relative to the workspace root, e.g. \".\" or \"src\"" }
+            },
+            required: ["path"]
+        }
+    },
+    read_file: {
+        description: `Read a text file from the workspace, with line numbers. At most ${MAX_READ_LINES} lines are returned per call; use start_line to page through longer files.`,
+        parameters: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "File relative to the workspace root" },
+                start_line: { type: "integer", minimum: 1, description: "First line to read (1-based)" },
+                end_line: { type: "integer", minimum: 1, description: "Last line to read" }
+            },
+            required: ["path"]
+        }
+    },
+    grep: {
+        description: `Search files in the workspace for a regular expression. Returns up to ${MAX_GREP_MATCHES} matching lines as path:line: text.`,
+        parameters: {
+            type: "object",
+            properties: {
+                pattern: { type: "string", minLength: 1, description: "JavaScript regular expression" },
+                path: { type: "string", description: "File or directory to search, relative to the workspace root (default \".\")" },
+                glob: { type: "string", description: "Only search files matching this glob below path, e.g. **/*.ts" },
+                ignore_case: { type: "boolean", description: "Match case-insensitively" }
+            },
+            required: ["pattern"]
+        }
+    },
+    read_scratchpad_section: {
+        description: "Read one section of the Multi-Agent Scratchpad.",
+        parameters: {
+            type: "object",
+            properties: {
+                section: { type: "string", enum: SCRATCHPAD_SECTIONS, description: "Section title" }
+            },
+            required: ["section"]
+        }
+    }
+};
+
+export const AGENT_FUNCTIONS: ChatCompletionTool[] = Object.entries(FUNCTION_SCHEMAS).map(([name, { description, parameters }]) => ({
+    type: "function",
+    function: { name, description, parameters: parameters as Record<string, unknown> }
+}));
+
+function limit(text: string): string {
+    return text.length > MAX_RESULT_CHARS
+        ? `${text.slice(0, MAX_RESULT_CHARS)}\n[... ${text.length - MAX_RESULT_CHARS} more characters truncated ...]`
+        : text;
+}
+
+async function listDir(sandbox: Sandbox, path: string): Promise<string> {
+    const dir = await resolveSandboxPath(sandbox, path, "directory");
+    const base = relative(sandbox.root, resolve(sandbox.root, path)).split(sep).join("/");
+    const entries = (await fs.readdir(dir, { withFileTypes: true }))
+        .filter(entry => !deniedBy(sandbox, base ? `${base}/${entry.name}` : entry.name))
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(entry => entry.isDirectory() ? `${entry.name}/` : entry.name);
+    if (entries.length === 0) {
+        return "(empty directory)";
+    }
+    const shown = entries.slice(0, MAX_DIR_ENTRIES);
+    return [...shown, ...(entries.length > shown.length ? [`[... ${entries.length - shown.length} more entries ...]`] : [])].join("\n");
+}
+
+async function readTextFile(path: string): Promise<string> {
+    if ((await fs.stat(path)).size > MAX_FILE_BYTES) {
+        throw new Error(`File is larger than ${MAX_FILE_BYTES / 1024} KB`);
+    }
+    const content = await fs.readFile(path, "utf8");
+    if (content.includes("\0")) {
+        throw new Error("Binary file");
+    }
+    return content;
+}
+
+async function readFile(sandbox: Sandbox, path: string, startLine = 1, endLine?: number): Promise<string> {
+    const lines = (await readTextFile(await resolveSandboxPath(sandbox, path))).split("\n");
+    const last = Math.min(endLine ?? lines.length, startLine + MAX_READ_LINES - 1, lines.length);
+    if (startLine > lines.length) {
+        return `(the file has only ${lines.length} lines)`;
+    }
+    const shown = lines.slice(startLine - 1, last).map((line, i) => `${startLine + i}: ${line}`);
+    if (last < lines.length) {
+        shown.push(`[... lines ${last + 1}-${lines.length} not shown ...]`);
+    }
+    return shown.join("\n");
+}
+
+// The pattern comes from the model, and a backtracking one like (a+)+$ can run for minutes. The search
+// runs in a worker thread so it can be stopped after GREP_TIMEOUT_MS without blocking the server.
+const GREP_WORKER = `
+const { parentPort, workerData } = require("worker_threads");
+const fs = require("fs");
+const { pattern, flags, files, maxMatches, maxLineChars, maxFileBytes } = workerData;
+const regex = new RegExp(pattern, flags);
+const matches = [];
+for (const { label, path } of files) {
+    let content;
+    try {
+        if (fs.statSync(path).size > maxFileBytes) continue;
+        content = fs.readFileSync(path, "utf8");
+    } catch {
+        continue;
+    }
+    if (content.includes("\\0")) continue;
+    const lines = content.split("\\n");
+    for (let i = 0; i < lines.length && matches.length < maxMatches; i++) {
+        if (regex.test(lines[i])) {
+            matches.push(label + ":" + (i + 1) + ": " + lines[i].slice(0, maxLineChars));
+        }
+    }
+    if (matches.length >= maxMatches) break;
+}
+parentPort.postMessage(matches);
+`;
+
+function searchFiles(pattern: string, flags: string, files: Array<{ label: string; path: string }>): Promise<string[]> {
+    return new Promise((resolvePromise, reject) => {
+        const worker = new Worker(GREP_WORKER, {
+            eval: true,
+            workerData: {
+                pattern,
+                flags,
+                files,
+                maxMatches: MAX_GREP_MATCHES,
+                maxLineChars: MAX_GREP_LINE_CHARS,
+                maxFileBytes: MAX_FILE_BYTES
+            }
+        });
+        const timer = setTimeout(() => {
+            void worker.terminate();
+            reject(new Error(`Search timed out after ${GREP_TIMEOUT_MS / 1000}s; use a simpler pattern or narrow the path`));
+        }, GREP_TIMEOUT_MS);
+        worker.once("message", (matches: string[]) => {
+            clearTimeout(timer);
+            void worker.terminate();
+            resolvePromise(matches);
+        });
+        worker.once("error", error => {
+            clearTimeout(timer);
+            reject(error);
+        });
+    });
+}
+
+async function grep(sandbox: Sandbox, pattern: string, path = ".", glob?: string, ignoreCase = false): Promise<string> {
+    // Compiling is cheap and reports syntax errors here; only matching can run away
+    const flags = ignoreCase ? "i" : "";
+    new RegExp(pattern, flags);
+    const base = path.replace(/\\/g, "/").replace(/\/+$/, "") || ".";
+
+    // A file is searched directly; a directory is expanded with the glob
+    let files: string[];
+    const target = await resolveWorkspacePath(sandbox.root, base, "directory").catch(() => undefined);
+    if (target) {
+        await resolveSandboxPath(sandbox, base, "directory");
+        const prefix = base === "." ? "" : `${base}/`;
+        files = await expandGlob(sandbox, `${prefix}${glob ?? "**/*"}`, MAX_GREP_FILES);
+    } else {
+        await resolveSandboxPath(sandbox, base);
+        files = [base];
+    }
+
+    // Resolve every file through the sandbox before the worker reads it
+    const readable: Array<{ label: string; path: string }> = [];
+    for (const file of files) {
+        const real = await resolveSandboxPath(sandbox, file).catch(() => undefined);
+        if (real) {
+            readable.push({ label: file, path: real });
+        }
+    }
+
+    const matches = await searchFiles(pattern, flags, readable);
+    if (matches.length >= MAX_GREP_MATCHES) {
+        matches.push(`[... stopped after ${MAX_GREP_MATCHES} matches ...]`);
+    }
+    return matches.length > 0 ? matches.join("\n") : `No matches in ${files.length} file${files.length === 1 ? "" : "s"}`;
+}
+
+async function readScratchpadSection(section: ScratchpadSectionTitle): Promise<string> {
+    const scratchpad = await loadScratchpad();
+    if (!scratchpad.exists) {
+        return `No scratchpad found at ${scratchpad.path}`;
+    }
+    return findSection(scratchpad, section)?.content || `Section "${section}" is empty or missing`;
+}
+
+// Run one function call. Failures are returned to the model as text so it can correct itself.
+async function callFunction(name: string, rawArguments: string): Promise<{ args: unknown; result: string; error?: boolean }> {
+    let args: unknown = rawArguments;
+    try {
+        const schema = FUNCTION_SCHEMAS[name];
+        if (!schema) {
+            throw new Error(`Unknown function: ${name}`);
+        }
+        args = JSON.parse(rawArguments || "{}");
+        const params = validateArguments(name, schema.parameters, args as Record<string, unknown>);
+        const sandbox = await createSandbox();
+
+        let result: string;
+        switch (name) {
+            case "list_dir":
+                result = await listDir(sandbox, params.path as string);
+                break;
+            case "read_file":
+                result = await readFile(sandbox, params.path as string, params.start_line as number | undefined, params.end_line as number | undefined);
+                break;
+            case "grep":
+                result = await grep(sandbox, params.pattern as string, params.path as string | undefined, params.glob as string | undefined, params.ignore_case as boolean | undefined);
+                break;
+            default:
+                result = await readScratchpadSection(params.section as ScratchpadSectionTitle);
+        }
+        return { args, result: limit(result) };
+    } catch (error) {
+        // McpError prefixes its message with the error code, which means nothing to the model
+        return { args, result: `Error: ${(error as Error).message.replace(/^MCP error -?\d+: /, "")}`, error: true };
+    }
+}
+
+// Let the model call the read-only functions until it answers. Each iteration is one model call;
+// the last allowed one is made with tool_choice "none", so the loop always ends with an answer.
+export async function runAgentLoop(
+    model: ModelConfig,
+    params: ChatCompletionCreateParamsNonStreaming,
+    maxIterations: number,
+    options: CompletionOptions
+): Promise<AgentResult> {
+    const messages: ChatCompletionMessageParam[] = [...params.messages];
+    const trace: AgentStep[] = [];
+
+    // Progress is reported as time since the loop started, across all model calls
+    const startedAt = Date.now();
+    const onProgress = options.onProgress && ((progress: CompletionProgress) =>
+        options.onProgress!({ ...progress, elapsed_ms: Date.now() - startedAt }));
+
+    for (let iteration = 1; ; iteration++) {
+        const completion = await createChatCompletion(model, {
+            ...params,
+            messages,
+            tools: AGENT_FUNCTIONS,
+            tool_choice: iteration >= maxIterations ? "none" : "auto"
+        }, { ...options, onProgress });
+
+        const message = completion.choices[0]?.message;
+        if (!message?.tool_calls?.length || iteration >= maxIterations) {
+            return { completion, iterations: iteration, trace };
+        }
+
+        messages.push({ role: "assistant", content: message.content, tool_calls: message.tool_calls });
+        for (const call of message.tool_calls) {
+            const { args, result, error } = await callFunction(call.function.name, call.function.arguments);
+            messages.push({ role: "tool", tool_call_id: call.id, content: result });
+            trace.push({
+                iteration,
+                function: call.function.name,
+                arguments: args,
+                result: result.length > TRACE_RESULT_CHARS ? `${result.slice(0, TRACE_RESULT_CHARS)}...` : result,
+                result_chars: result.length,
+                ...(error ? { error } : {})
+            });
+        }
+    }
+}
@@ -0,0 +1,96 @@
+import { createHash } from "crypto";
+import { resolve } from "path";
+import type { ChatCompletion, ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions";
+import { loadConfigFile } from "./config.js";
+import { plannerError } from "./errors.js";
+import { ModelConfig } from "./models.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./storage.js";
+
+// off: always call the provider; record: call the provider and store every reply;
+// replay: answer only from stored replies and fail on a miss (no network)
+export const CACHE_MODES = ["off", "record", "replay"] as const;
+export type CacheMode = typeof CACHE_MODES[number];
+
+interface CacheSettings {
+    mode?: CacheMode;
+    dir?: string;
+}
+
+export interface CacheEntry {
+    key: string;
+    model: string;
+    created_at: string;
+    request: Omit<ChatCompletionCreateParamsNonStreaming, "stream">;
+    completion: ChatCompletion;
+}
+
+function getCacheSettings(): CacheSettings {
+    return (loadConfigFile() as { cache?: CacheSettings }).cache ?? {};
+}
+
+export function getCacheMode(): CacheMode {
+    const mode = process.env.PLANNER_CACHE_MODE ?? getCacheSettings().mode ?? "off";
+    if (!CACHE_MODES.includes(mode as CacheMode)) {
+        throw plannerError("invalid_request", `Invalid cache mode: ${mode}. Must be one of: ${CACHE_MODES.join(", ")}`);
+    }
+    return mode as CacheMode;
+}
+
+// Recordings can be kept in the repo (e.g. as CI fixtures) by pointing the cache dir there
+function getCacheDir(): string {
+    const dir = process.env.PLANNER_CACHE_DIR ?? getCacheSettings().dir;
+    return dir ? resolve(process.cwd(), dir) : dataPath("cache");
+}
+
+// Serialize with sorted keys so logically equal requests hash the same
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+        return `{${Object.keys(value)
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+            .join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
+
+// Strip transport-only fields so streamed and non-streamed calls share entries
+function cacheableRequest(params: ChatCompletionCreateParamsNonStreaming): CacheEntry["request"] {
+    const { stream, stream_options, ...request } = params as ChatCompletionCreateParamsNonStreaming & { stream_options?: unknown };
+    return request;
+}
+
+// Content address of a request: registry model id plus every parameter, messages included
+export function cacheKey(model: ModelConfig, params: ChatCompletionCreateParamsNonStreaming): string {
+    return createHash("sha256")
+        .update(canonicalJson({ model: model.id, request: cacheableRequest(params) }))
+        .digest("hex");
+}
+
+function entryPath(key: string): string {
+    return resolve(getCacheDir(), `${key}.json`);
+}
+
+export async function readCachedCompletion(model: ModelConfig, params: ChatCompletionCreateParamsNonStreaming): Promise<ChatCompletion | undefined> {
+    const entry = await readJsonFile<CacheEntry>(entryPath(cacheKey(model, params)));
+    return entry?.completion;
+}
+
+export async function writeCachedCompletion(
+    model: ModelConfig,
+    params: ChatCompletionCreateParamsNonStreaming,
+    completion: ChatCompletion
+): Promise<void> {
+    const key = cacheKey(model, params);
+    const entry: CacheEntry = {
+        key,
+        model: model.id,
+        created_at: new Date().toISOString(),
+        request: cacheableRequest(params),
+        completion
+    };
+    await writeJsonFile(entryPath(key), entry);
+}
@@ -0,0 +1,163 @@
+import type {
+    ChatCompletion,
+    ChatCompletionChunk,
+    ChatCompletionCreateParamsNonStreaming,
+    ChatCompletionMessageToolCall,
+} from "openai/resources/chat/completions";
+import { ModelConfig, getProviderConfig } from "./models.js";
+import { getClientForModel } from "./providers.js";
+import { getCacheMode, readCachedCompletion, writeCachedCompletion } from "./cache.js";
+import { mockChatCompletion } from "./mock.js";
+import { plannerError } from "./errors.js";
+import { runRequest } from "./request-layer.js";
+import { UsageContext, assertWithinBudget, recordUsage } from "./usage.js";
+
+export interface CompletionProgress {
+    elapsed_ms: number;
+    // Content chunks received so far (roughly one token each); stays 0 for non-streaming calls
+    tokens_received: number;
+}
+
+export interface CompletionOptions {
+    // Aborts the in-flight request, e.g. when the MCP client cancels the tool call
+    signal?: AbortSignal;
+    // Called as chunks arrive and on a heartbeat while waiting, so long reasoning calls show signs of life
+    onProgress?: (progress: CompletionProgress) => void;
+    // Attributes the call in the usage ledger and selects which budgets apply
+    usage: UsageContext;
+}
+
+const HEARTBEAT_INTERVAL_MS = 5000;
+const PROGRESS_THROTTLE_MS = 1000;
+
+// Run a chat completion through the request layer (limiter, timeout, retries), streaming it when
+// the model supports streaming. Streamed chunks are reassembled into a regular ChatCompletion so
+// callers don't care which path was taken. Every call is checked against the budgets and logged
+// to the usage ledger. In replay mode replies come from the response cache instead, and in record
+// mode every live reply is stored there.
+export async function createChatCompletion(
+    model: ModelConfig,
+    params: ChatCompletionCreateParamsNonStreaming,
+    options: CompletionOptions
+): Promise<ChatCompletion> {
+    const cacheMode = getCacheMode();
+    if (cacheMode === "replay") {
+        const cached = await readCachedCompletion(model, params);
+        if (!cached) {
+            throw plannerError("cache_miss", `No recorded response for this ${model.id} request (cache mode is replay)`);
+        }
+        return cached;
+    }
+
+    const provider = getProviderConfig(model.provider);
+    if (provider.type === "mock") {
+        // Mock replies cost nothing, but are still logged so usage reporting can be exercised offline
+        const completion = await mockChatCompletion(model, provider, params);
+        await recordUsage({ ...model, pricing: undefined }, completion.usage, options.usage);
+        return completion;
+    }
+
+    await assertWithinBudget(options.usage);
+    const completion = await runRequest(signal => attemptChatCompletion(model, params, { ...options, signal }), { signal: options.signal });
+    await recordUsage(model, completion.usage, options.usage);
+
+    if (cacheMode === "record") {
+        await writeCachedCompletion(model, params, completion);
+    }
+    return completion;
+}
+
+async function attemptChatCompletion(
+    model: ModelConfig,
+    params: ChatCompletionCreateParamsNonStreaming,
+    options: CompletionOptions
+): Promise<ChatCompletion> {
+    const startedAt = Date.now();
+    let tokensReceived = 0;
+    let lastReportAt = 0;
+    const report = (force = false) => {
+        const now = Date.now();
+        if (!options.onProgress || (!force && now - lastReportAt < PROGRESS_THROTTLE_MS)) {
+            return;
+        }
+        lastReportAt = now;
+        options.onProgress({ elapsed_ms: now - startedAt, tokens_received: tokensReceived });
+    };
+    const heartbeat = options.onProgress ? setInterval(() => report(true), HEARTBEAT_INTERVAL_MS) : undefined;
+
+    try {
+        const client = getClientForModel(model);
+        if (!model.capabilities.streaming) {
+            return await client.chat.completions.create(params, { signal: options.signal });
+        }
+
+        const stream = await client.chat.completions.create({
+            ...params,
+            stream: true,
+            stream_options: { include_usage: true }
+        }, { signal: options.signal });
+
+        let completion: ChatCompletion | undefined;
+        let content = "";
+        let refusal = "";
+        // Function calls arrive in pieces, keyed by their index in the message
+        const toolCalls: ChatCompletionMessageToolCall[] = [];
+        for await (const chunk of stream) {
+            completion ??= startCompletion(chunk);
+            const choice = chunk.choices[0];
+            if (choice?.delta?.content) {
+                content += choice.delta.content;
+                tokensReceived++;
+                report();
+            }
+            if (choice?.delta?.refusal) {
+                refusal += choice.delta.refusal;
+            }
+            for (const delta of choice?.delta?.tool_calls ?? []) {
+                const call = toolCalls[delta.index] ??= { id: "", type: "function", function: { name: "", arguments: "" } };
+                call.id = delta.id ?? call.id;
+                call.function.name += delta.function?.name ?? "";
+                call.function.arguments += delta.function?.arguments ?? "";
+                tokensReceived++;
+                report();
+            }
+            if (choice?.finish_reason) {
+                completion.choices[0].finish_reason = choice.finish_reason;
+            }
+            if (chunk.usage) {
+                completion.usage = chunk.usage;
+            }
+        }
+
+        if (!completion) {
+            throw new Error("Stream ended without any data");
+        }
+        completion.choices[0].message.content = toolCalls.length > 0 && !content ? null : content;
+        completion.choices[0].message.refusal = refusal || null;
+        if (toolCalls.length > 0) {
+            completion.choices[0].message.tool_calls = toolCalls;
+        }
+        report(true);
+        return completion;
+    } finally {
+        if (heartbeat) {
+            clearInterval(heartbeat);
+        }
+    }
+}
+
+function startCompletion(chunk: ChatCompletionChunk): ChatCompletion {
+    return {
+        id: chunk.id,
+        object: "chat.completion",
+        created: chunk.created,
+        model: chunk.model,
+        system_fingerprint: chunk.system_fingerprint,
+        choices: [{
+            index: 0,
+            finish_reason: "stop",
+            logprobs: null,
+            message: { role: "assistant", content: null, refusal: null }
+        }]
+    };
+}
@@ -0,0 +1,36 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+
+// Optional JSON config file. Each subsystem reads its own top-level key and falls back to built-in defaults.
+export interface PlannerConfigFile {
+    [key: string]: unknown;
+}
+
+const DEFAULT_CONFIG_FILE = "mcp-openai-planner.config.json";
+
+let cachedConfig: { path: string; config: PlannerConfigFile } | undefined;
+
+export function getConfigPath(): string {
+    return resolve(process.cwd(), process.env.PLANNER_CONFIG || DEFAULT_CONFIG_FILE);
+}
+
+// Load the config file once. A missing default file is fine; a missing or broken file that was
+// explicitly configured is an error, so typos in PLANNER_CONFIG don't go unnoticed.
+export function loadConfigFile(): PlannerConfigFile {
+    const path = getConfigPath();
+    if (cachedConfig?.path === path) {
+        return cachedConfig.config;
+    }
+
+    let config: PlannerConfigFile = {};
+    try {
+        config = JSON.parse(readFileSync(path, "utf8")) as PlannerConfigFile;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT" || process.env.PLANNER_CONFIG) {
+            throw new Error(`Failed to load config file ${path}: ${(error as Error).message}`);
+        }
+    }
+
+    cachedConfig = { path, config };
+    return config;
+}
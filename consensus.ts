@@ -0,0 +1,280 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { loadConfigFile } from "./config.js";
+import { CompletionProgress, createChatCompletion } from "./completion.js";
+import { classifyError } from "./errors.js";
+import { getModelRegistry, resolveModel } from "./models.js";
+import {
+    PLANNER_RESPONSE_FORMAT,
+    PlannerResponse,
+    formatPlannerResponse,
+    parsePlannerResponseJson,
+    parsePlannerResponseText,
+} from "./planner-response.js";
+import { REASONING_EFFORT_LEVELS, ReasoningEffortLevel, planCompletionParams } from "./planner.js";
+import { renderTemplate } from "./templates.js";
+import type { UsageContext } from "./usage.js";
+import { messageText } from "./types.js";
+
+// One seat on the planning panel
+export interface ConsensusPlanner {
+    model: string;
+    reasoning_effort?: ReasoningEffortLevel;
+}
+
+interface ConsensusSettings {
+    planners?: ConsensusPlanner[];
+    judge_model?: string;
+}
+
+export interface ConsensusDraft {
+    draft: number;
+    model: string;
+    reasoning_effort?: ReasoningEffortLevel;
+    reply?: string;
+    error?: string;
+}
+
+export interface Disagreement {
+    topic: string;
+    // Which draft holds which position
+    positions: string;
+    resolution: string;
+}
+
+export interface ConsensusResult {
+    // The merged [PLANNER RESPONSE]; empty when no merge could be made (see error)
+    reply: string;
+    plan?: PlannerResponse;
+    agreements: string[];
+    disagreements: Disagreement[];
+    judge_model: string;
+    drafts: ConsensusDraft[];
+    error?: string;
+}
+
+export interface ConsensusOptions {
+    signal?: AbortSignal;
+    // Progress callback for the call with the given label (a draft or the judge)
+    onProgress?: (label: string) => ((progress: CompletionProgress) => void) | undefined;
+    usage: UsageContext;
+}
+
+// Panel and judge come from the `consensus` config key. By default the default planning model
+// answers once per reasoning_effort level and then judges its own drafts.
+export function getConsensusSettings(): Required<ConsensusSettings> {
+    const settings = (loadConfigFile() as { consensus?: ConsensusSettings }).consensus ?? {};
+    const { default_plan_model } = getModelRegistry();
+    return {
+        planners: settings.planners ?? REASONING_EFFORT_LEVELS.map(level => ({ model: default_plan_model, reasoning_effort: level })),
+        judge_model: settings.judge_model ?? default_plan_model
+    };
+}
+
+const JUDGE_REASONING_EFFORT: ReasoningEffortLevel = "medium";
+
+// Strict JSON schema for the judge's reply, embedding the planner_response schema for the merged plan
+const CONSENSUS_JUDGEMENT_FORMAT = {
+    type: "json_schema",
+    json_schema: {
+        name: "consensus_judgement",
+        strict: true,
+        schema: {
+            type: "object",
+            properties: {
+                agreements: {
+                    type: "array",
+                    description: "Points the drafts agree on",
+                    items: { type: "string" }
+                },
+                disagreements: {
+                    type: "array",
+                    description: "Points the drafts disagree on, with the resolution",
+                    items: {
+                        type: "object",
+                        properties: {
+                            topic: { type: "string" },
+                            positions: { type: "string", description: "Which draft says what" },
+                            resolution: { type: "string", description: "Your decision and why" }
+                        },
+                        required: ["topic", "positions", "resolution"],
+                        additionalProperties: false
+                    }
+                },
+                merged: PLANNER_RESPONSE_FORMAT.json_schema.schema
+            },
+            required: ["agreements", "disagreements", "merged"],
+            additionalProperties: false
+        }
+    }
+} as const;
+
+interface Judgement {
+    agreements: string[];
+    disagreements: Disagreement[];
+    plan?: PlannerResponse;
+}
+
+function parseJudgementJson(json: string): Judgement {
+    const value = JSON.parse(json) as { agreements?: unknown; disagreements?: unknown; merged?: unknown };
+    if (!Array.isArray(value.agreements) || !Array.isArray(value.disagreements) || !value.merged) {
+        throw new Error("Judge reply does not match the consensus_judgement schema");
+    }
+    return {
+        agreements: value.agreements.map(String),
+        disagreements: (value.disagreements as Partial<Disagreement>[]).map(item => ({
+            topic: String(item.topic ?? ""),
+            positions: String(item.positions ?? ""),
+            resolution: String(item.resolution ?? "")
+        })),
+        plan: parsePlannerResponseJson(JSON.stringify(value.merged))
+    };
+}
+
+function bulletsUnder(text: string, marker: string): string[] {
+    const start = text.indexOf(marker);
+    if (start < 0) {
+        return [];
+    }
+    const body = text.slice(start + marker.length);
+    const end = body.search(/^\s*\[[A-Z ]+\]/m);
+    return (end >= 0 ? body.slice(0, end) : body)
+        .split("\n")
+        .map(line => line.replace(/^\s*[-*]\s+/, "").trim())
+        .filter(line => line.length > 0);
+}
+
+// Parse the text format the consensus_judge template asks for
+function parseJudgementText(text: string): Judgement {
+    return {
+        agreements: bulletsUnder(text, "[AGREEMENTS]"),
+        disagreements: bulletsUnder(text, "[DISAGREEMENTS]").map(line => {
+            const [claim, resolution = ""] = line.split(/\s*Resolution:\s*/i);
+            const colon = claim.indexOf(":");
+            return colon > 0
+                ? { topic: claim.slice(0, colon).trim(), positions: claim.slice(colon + 1).trim(), resolution }
+                : { topic: claim, positions: "", resolution };
+        }),
+        plan: parsePlannerResponseText(text)
+    };
+}
+
+function draftLabel(draft: ConsensusDraft): string {
+    return draft.reasoning_effort ? `${draft.model} (reasoning_effort: ${draft.reasoning_effort})` : draft.model;
+}
+
+// Send one planner conversation to every planner on the panel in parallel, then have the judge
+// compare the drafts and merge them. Drafts that fail are reported alongside the others; the call
+// only fails outright when every draft fails or the client cancels.
+export async function runConsensusPlan(
+    messages: ChatCompletionMessageParam[],
+    planners: ConsensusPlanner[],
+    judgeModel: string,
+    options: ConsensusOptions
+): Promise<ConsensusResult> {
+    // Resolve every model first so a typo fails before anything is spent
+    const panel = planners.map(planner => ({ ...planner, config: resolveModel(planner.model, "plan") }));
+    const judge = resolveModel(judgeModel);
+
+    // Calls overlap, so progress is reported as time since the consensus run started
+    const startedAt = Date.now();
+    const progressFor = (label: string) => {
+        const notify = options.onProgress?.(label);
+        return notify && ((progress: CompletionProgress) => notify({ ...progress, elapsed_ms: Date.now() - startedAt }));
+    };
+
+    const drafts: ConsensusDraft[] = panel.map((planner, i) => ({
+        draft: i + 1,
+        model: planner.config.id,
+        reasoning_effort: planner.reasoning_effort
+    }));
+    const settled = await Promise.allSettled(panel.map((planner, i) =>
+        createChatCompletion(planner.config, planCompletionParams(planner.config, messages, { reasoning_effort: planner.reasoning_effort }), {
+            signal: options.signal,
+            onProgress: progressFor(`Draft ${i + 1}: ${draftLabel(drafts[i])}`),
+            usage: options.usage
+        })
+    ));
+
+    const failures: unknown[] = [];
+    settled.forEach((outcome, i) => {
+        if (outcome.status === "fulfilled") {
+            drafts[i].reply = outcome.value.choices[0]?.message?.content || undefined;
+            drafts[i].error = drafts[i].reply ? undefined : "No response received";
+        } else {
+            failures.push(outcome.reason);
+            drafts[i].error = (outcome.reason as Error).message;
+        }
+    });
+    const cancelled = failures.find(error => classifyError(error) === "cancelled");
+    if (cancelled) {
+        throw cancelled;
+    }
+    const answered = drafts.filter(draft => draft.reply);
+    if (answered.length === 0) {
+        throw failures[0] ?? new Error("No planner returned a response");
+    }
+
+    const result: ConsensusResult = { reply: "", agreements: [], disagreements: [], judge_model: judge.id, drafts };
+    if (answered.length === 1) {
+        result.reply = answered[0].reply!;
+        result.plan = parsePlannerResponseText(result.reply);
+        result.error = `Only draft ${answered[0].draft} succeeded, so there was nothing to compare`;
+        return result;
+    }
+
+    const judgeInput = [
+        "The Executor sent this request to the Planners:",
+        messageText([...messages].reverse().find(message => message.role === "user")),
+        ...answered.map(draft => `[DRAFT ${draft.draft}] ${draftLabel(draft)}\n${draft.reply}`)
+    ].join("\n\n");
+    const useJsonSchema = judge.capabilities.structured_output;
+
+    let reply: string | undefined;
+    try {
+        const completion = await createChatCompletion(judge, planCompletionParams(judge, [
+            { role: "developer", content: await renderTemplate("consensus_judge") },
+            { role: "user", content: judgeInput }
+        ], {
+            reasoning_effort: JUDGE_REASONING_EFFORT,
+            response_format: useJsonSchema ? CONSENSUS_JUDGEMENT_FORMAT : undefined
+        }), {
+            signal: options.signal,
+            onProgress: progressFor(`Judge: ${judge.id}`),
+            usage: options.usage
+        });
+        reply = completion.choices[0]?.message?.content ?? undefined;
+    } catch (error) {
+        // The drafts were paid for, so return them even when the judge fails
+        if (classifyError(error) === "cancelled") {
+            throw error;
+        }
+        result.error = `Judge ${judge.id} failed: ${(error as Error).message}`;
+        return result;
+    }
+    if (!reply) {
+        result.error = `Judge ${judge.id} returned no response`;
+        return result;
+    }
+
+    // Providers that ignore response_format still reply in text, so parse that as a fallback
+    let judgement: Judgement | undefined;
+    if (useJsonSchema) {
+        try {
+            judgement = parseJudgementJson(reply);
+        } catch {
+            judgement = undefined;
+        }
+    }
+    judgement ??= parseJudgementText(reply);
+
+    result.agreements = judgement.agreements;
+    result.disagreements = judgement.disagreements;
+    result.plan = judgement.plan;
+    if (judgement.plan) {
+        result.reply = formatPlannerResponse(judgement.plan);
+    } else {
+        result.reply = reply;
+        result.error = "Judge reply does not contain a [PLANNER RESPONSE]";
+    }
+    return result;
+}
@@ -0,0 +1,144 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import {
+    APIError,
+    APIConnectionError,
+    APIConnectionTimeoutError,
+    APIUserAbortError,
+} from "openai";
+
+// Server-defined JSON-RPC error codes (the -32000 to -32099 range is reserved for implementations).
+// Agents can branch on these: retryable errors mean "try again later", the rest mean "fix your input or setup".
+export enum PlannerErrorCode {
+    AuthenticationFailed = -32010,
+    QuotaExceeded = -32011,
+    RateLimited = -32012,
+    InvalidModel = -32013,
+    ContextLengthExceeded = -32014,
+    Timeout = -32015,
+    ProviderUnavailable = -32016,
+    Cancelled = -32017,
+    BudgetExceeded = -32018,
+    CacheMiss = -32019,
+}
+
+export type PlannerErrorKind =
+    | "authentication"
+    | "quota"
+    | "rate_limit"
+    | "invalid_model"
+    | "context_length"
+    | "timeout"
+    | "provider_unavailable"
+    | "cancelled"
+    | "budget_exceeded"
+    | "cache_miss"
+    | "invalid_request"
+    | "internal";
+
+export interface PlannerErrorData {
+    kind: PlannerErrorKind;
+    retryable: boolean;
+    status?: number;
+    provider_code?: string;
+}
+
+const KIND_CODES: Record<PlannerErrorKind, number> = {
+    authentication: PlannerErrorCode.AuthenticationFailed,
+    quota: PlannerErrorCode.QuotaExceeded,
+    rate_limit: PlannerErrorCode.RateLimited,
+    invalid_model: PlannerErrorCode.InvalidModel,
+    context_length: PlannerErrorCode.ContextLengthExceeded,
+    timeout: PlannerErrorCode.Timeout,
+    provider_unavailable: PlannerErrorCode.ProviderUnavailable,
+    cancelled: PlannerErrorCode.Cancelled,
+    budget_exceeded: PlannerErrorCode.BudgetExceeded,
+    cache_miss: PlannerErrorCode.CacheMiss,
+    invalid_request: ErrorCode.InvalidParams,
+    internal: ErrorCode.InternalError
+};
+
+const RETRYABLE_KINDS: ReadonlySet<PlannerErrorKind> = new Set<PlannerErrorKind>(["rate_limit", "timeout", "provider_unavailable"]);
+
+export function isRetryable(kind: PlannerErrorKind): boolean {
+    return RETRYABLE_KINDS.has(kind);
+}
+
+export function plannerError(kind: PlannerErrorKind, message: string, extra: Partial<PlannerErrorData> = {}): McpError {
+    const data: PlannerErrorData = { kind, retryable: isRetryable(kind), ...extra };
+    return new McpError(KIND_CODES[kind], message, data);
+}
+
+// Raised by the request layer when a call exceeds its time limit
+export class RequestTimeoutError extends Error {
+    constructor(readonly timeoutMs: number) {
+        super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+        this.name = "RequestTimeoutError";
+    }
+}
+
+// Classify a provider failure. Used both to decide whether to retry and to build the MCP error.
+export function classifyError(error: unknown): PlannerErrorKind {
+    if (error instanceof McpError) {
+        return (error.data as PlannerErrorData | undefined)?.kind ?? "internal";
+    }
+    if (error instanceof RequestTimeoutError || error instanceof APIConnectionTimeoutError) {
+        return "timeout";
+    }
+    if (error instanceof APIUserAbortError) {
+        return "cancelled";
+    }
+    if (error instanceof APIConnectionError) {
+        return "provider_unavailable";
+    }
+    if (error instanceof APIError) {
+        const code = error.code ?? "";
+        if (error.status === 401 || error.status === 403) {
+            return "authentication";
+        }
+        if (code === "insufficient_quota") {
+            return "quota";
+        }
+        if (error.status === 429) {
+            return "rate_limit";
+        }
+        if (code === "model_not_found" || error.status === 404) {
+            return "invalid_model";
+        }
+        if (code === "context_length_exceeded" || /maximum context length|context window/i.test(error.message)) {
+            return "context_length";
+        }
+        if (error.status !== undefined && (error.status >= 500 || error.status === 408 || error.status === 409)) {
+            return "provider_unavailable";
+        }
+        return "invalid_request";
+    }
+    return "internal";
+}
+
+const KIND_HINTS: Partial<Record<PlannerErrorKind, string>> = {
+    authentication: "Check the API key for this provider",
+    quota: "The account is out of quota; check billing before retrying",
+    rate_limit: "Rate limited by the provider; try again later",
+    invalid_model: "Pick one of the configured models",
+    context_length: "Shorten the messages or attach less context",
+    timeout: "Try again later or raise requests.timeout_ms",
+    provider_unavailable: "The provider is unavailable; try again later"
+};
+
+// Convert any failure from a tool into an McpError with a distinct code per failure kind
+export function toMcpError(error: unknown): McpError {
+    if (error instanceof McpError) {
+        return error;
+    }
+
+    const kind = classifyError(error);
+    const message = (error as Error)?.message ?? String(error);
+    const hint = KIND_HINTS[kind];
+    if (error instanceof APIError) {
+        return plannerError(kind, hint ? `${message} (${hint})` : message, {
+            status: error.status,
+            provider_code: error.code ?? undefined
+        });
+    }
+    return plannerError(kind, hint ? `${message} (${hint})` : message);
+}
@@ -0,0 +1,101 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from "http";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+
+export interface HttpTransportOptions {
+    host: string;
+    port: number;
+    // Clients must send `Authorization: Bearer <token>`; /health is always open
+    token?: string;
+}
+
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+const HEALTH_PATH = "/health";
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "::1", "localhost"];
+
+// Compare digests so the check takes the same time whatever the token length
+function tokenMatches(header: string | undefined, token: string): boolean {
+    const match = header?.match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+        return false;
+    }
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+    return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { "Content-Type": "application/json", ...headers }).end(JSON.stringify(body));
+}
+
+// Serve MCP over HTTP with server-sent events: clients open GET /sse and post their messages to
+// /messages?sessionId=<id> (the endpoint is announced on the stream). Each client gets its own
+// MCP server from `createServer`.
+export async function startHttpTransport(createServer: () => Server, options: HttpTransportOptions): Promise<HttpServer> {
+    if (!options.token && !LOOPBACK_HOSTS.includes(options.host)) {
+        throw new Error(`Refusing to listen on ${options.host} without a token. Set PLANNER_HTTP_TOKEN or bind to 127.0.0.1.`);
+    }
+
+    const transports = new Map<string, SSEServerTransport>();
+    const startedAt = Date.now();
+
+    const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+
+        if (req.method === "GET" && url.pathname === HEALTH_PATH) {
+            sendJson(res, 200, {
+                status: "ok",
+                uptime_s: Math.round((Date.now() - startedAt) / 1000),
+                connections: transports.size
+            });
+            return;
+        }
+
+        if (options.token && !tokenMatches(req.headers.authorization, options.token)) {
+            sendJson(res, 401, { error: "Missing or invalid bearer token" }, { "WWW-Authenticate": "Bearer" });
+            return;
+        }
+
+        if (req.method === "GET" && url.pathname === SSE_PATH) {
+            const transport = new SSEServerTransport(MESSAGES_PATH, res);
+            transports.set(transport.sessionId, transport);
+            res.on("close", () => {
+                transports.delete(transport.sessionId);
+            });
+            await createServer().connect(transport);
+            return;
+        }
+
+        if (req.method === "POST" && url.pathname === MESSAGES_PATH) {
+            const transport = transports.get(url.searchParams.get("sessionId") ?? "");
+            if (!transport) {
+                sendJson(res, 404, { error: "Unknown or expired sessionId" });
+                return;
+            }
+            await transport.handlePostMessage(req, res);
+            return;
+        }
+
+        sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+    };
+
+    const httpServer = createHttpServer((req, res) => {
+        handle(req, res).catch((error) => {
+            console.error("HTTP request failed:", error);
+            if (!res.headersSent) {
+                sendJson(res, 500, { error: "Internal server error" });
+            }
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once("error", reject);
+        httpServer.listen(options.port, options.host, () => {
+            httpServer.off("error", reject);
+            resolve();
+        });
+    });
+    return httpServer;
+}
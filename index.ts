@@ -2,6 +2,7 @@
 
 import { config } from "dotenv";
 import { resolve } from "path";
+import { parseArgs } from "util";
 
 // Load environment variables from .env file
 config({ path: resolve(process.cwd(), '.env') });
@@ -11,404 +12,1432 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
     CallToolRequestSchema,
     ListToolsRequestSchema,
+    ListResourcesRequestSchema,
+    ReadResourceRequestSchema,
+    ListPromptsRequestSchema,
+    GetPromptRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
     Tool,
     McpError,
     ErrorCode,
     TextContent,
 } from "@modelcontextprotocol/sdk/types.js";
-import OpenAI from "openai";
 import type { 
     ChatCompletionMessageParam,
-    ChatCompletionContentPart,
-    ChatCompletionDeveloperMessageParam,
-    ChatCompletionSystemMessageParam,
-    ChatCompletionUserMessageParam,
-    ChatCompletionAssistantMessageParam,
-    ChatCompletionCreateParamsBase
-} from "openai/src/resources/chat/completions.js";
-
-// Extend OpenAI types to include reasoning_effort
-interface ExtendedChatCompletionCreateParams {
-    reasoning_effort?: "low" | "medium" | "high";
-}
-
-// Initialize OpenAI client
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-if (!OPENAI_API_KEY) {
-    throw new Error(
-        "OPENAI_API_KEY environment variable is required.\n" +
-        "Please create a .env file in the project root with your OpenAI API key:\n" +
-        "OPENAI_API_KEY=your_api_key_here"
-    );
-}
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-    apiKey: OPENAI_API_KEY
-});
+} from "openai/resources/chat/completions";
+import {
+    SCRATCHPAD_SECTIONS,
+    SCRATCHPAD_ALL_URI,
+    ScratchpadSectionTitle,
+    loadScratchpad,
+    findSection,
+    formatScratchpad,
+    appendToScratchpadSection,
+    sectionUri,
+    resolveScratchpadUri,
+} from "./scratchpad.js";
+import {
+    loadSession,
+    appendToSession,
+    listSessions,
+    forkSession,
+    deleteSession,
+    formatSession,
+} from "./sessions.js";
+import {
+    PLANNER_RESPONSE_FORMAT,
+    PlannerResponse,
+    parsePlannerResponseJson,
+    parsePlannerResponseText,
+    formatPlannerResponse,
+} from "./planner-response.js";
+import {
+    getModelRegistry,
+    modelsForRole,
+    modelNamesForRole,
+    resolveModel,
+} from "./models.js";
+import { createChatCompletion } from "./completion.js";
+import { progressNotifier } from "./progress.js";
+import { plannerError, toMcpError } from "./errors.js";
+import { buildUsageReport, getBudgets } from "./usage.js";
+import {
+    DEFAULT_REASONING_EFFORT,
+    REASONING_EFFORT_LEVELS,
+    ReasoningEffortLevel,
+    buildPlanConversation,
+    completionParams,
+    planCompletionParams,
+} from "./planner.js";
+import { getConsensusSettings, runConsensusPlan } from "./consensus.js";
+import {
+    TASKS_ALL_URI,
+    TASK_OWNERS,
+    TASK_STATUSES,
+    Task,
+    TaskChanges,
+    TaskOwner,
+    TaskStatus,
+    deleteTask,
+    filterTasks,
+    formatTasks,
+    importPlanSteps,
+    loadTasks,
+    readyTasks,
+    resolveTaskUri,
+    taskUri,
+    updateTask,
+} from "./tasks.js";
+import { formatReview, runReview } from "./review.js";
+import { MAX_AGENT_ITERATIONS, getDefaultMaxIterations, runAgentLoop } from "./agent.js";
+import { startHttpTransport } from "./http-transport.js";
+import { JsonSchema, validateArguments } from "./tool-schema.js";
+import type { WorkspaceRequest } from "./workspace.js";
+import { TEMPLATES, TemplateName, findTemplate, renderTemplate } from "./templates.js";
+import type { PlanMessage } from "./types.js";
 
-// Define supported models
-const SUPPORTED_MODELS = ["gpt-4o", "gpt-4o-mini", "o1-preview", "o1-mini", "o1", "o3-mini"] as const;
-const DEFAULT_CHAT_MODEL = "gpt-4o" as const;
-const DEFAULT_PLAN_MODEL = "o1" as const;
-type SupportedModel = typeof SUPPORTED_MODELS[number];
-
-// Define reasoning effort levels
-const REASONING_EFFORT_LEVELS = ["low", "medium", "high"] as const;
-const DEFAULT_REASONING_EFFORT = "low" as const;
-type ReasoningEffortLevel = typeof REASONING_EFFORT_LEVELS[number];
-
-// Define the default developer content for the multi-agent system
-const DEFAULT_DEVELOPER_CONTENT = [
-    {
-        "text": "# Instructions\n\nYou are a multi-agent system coordinator, playing two roles in this environment: Planner and Executor. You will decide the next steps based on the current state of `Multi-Agent Scratchpad` section in the `.cursorrules` file. Your goal is to complete the user\'s (or business\'s) final requirements. The specific instructions are as follows:\n\n**IMPORTANT: As the agent reading these instructions, you should initially assume the role of the Planner unless explicitly instructed otherwise by the user.**\n\n## Role Descriptions\n\n1. Planner\n\n    * Responsibilities: Perform high-level analysis, break down tasks, define success criteria, evaluate current progress. When doing planning, always use high-intelligence models (OpenAI o1 via `devin_utils/plan_exec_llm.py`). Don\'t rely on your own capabilities to do the planning.\n    * Actions: The Planner should analyze and break down the problem, then instruct the Executor to update the `.cursorrules` file with the plan. The Executor will implement the required changes and report back.\n\n2) Executor\n\n    * Responsibilities: Execute specific tasks instructed by the Planner, such as writing code, running tests, using tools, handling implementation details, etc. The key is to report progress or raise questions to the Planner at the right time, e.g., after completing some milestone or after hitting a blocker.\n    * Actions: When you complete a subtask or need assistance/more information, make incremental writes or modifications to the `Multi-Agent Scratchpad` section and `Lessons` section in the `.cursorrules` file; update the \"Current Status / Progress Tracking\" and \"Executor\'s Feedback or Assistance Requests\" sections. Then change to the Planner role.\n\n## Document Conventions\n\n* The `Multi-Agent Scratchpad` section in the `.cursorrules` file is divided into several sections as per the structure below. Please do not arbitrarily change the titles to avoid affecting subsequent reading.\n* Sections like \"Background and Motivation\" and \"Key Challenges and Analysis\" are generally established by the Planner initially and gradually appended during task progress.\n* \"Current Status / Progress Tracking\" and \"Executor\'s Feedback or Assistance Requests\" are mainly filled by the Executor, with the Planner reviewing and supplementing as needed.\n* \"Next Steps and Action Items\" mainly contains specific execution steps written by the Planner for the Executor.\n\n## Workflow Guidelines\n\n* After you receive an initial prompt for a new task, the Planner should instruct the Executor to update the \"Background and Motivation\" section and perform any needed planning.\n* The Planner should think deeply about the problem, breaking it down into manageable tasks and defining clear success criteria. The Planner should record this analysis in sections like \"Key Challenges and Analysis,\" \"Verifiable Success Criteria,\" or \"High-level Task Breakdown.\"\n* The Executor is responsible for all tool calls and implementation tasks. The Planner should never make tool calls directly.\n* The Executor should always update the \"Current Status / Progress Tracking\" and \"Executor\'s Feedback or Assistance Requests\" sections in the `Multi-Agent Scratchpad` after completing tasks or encountering issues.\n* The Executor is also responsible for updating the `Lessons` section with new learnings from the project.\n* If unclear whether Planner or Executor is speaking, declare your current role in the output prompt.\n* Continue the cycle unless the Planner explicitly indicates the entire project is complete or stopped. Communication between Planner and Executor is conducted through writing to or modifying the `Multi-Agent Scratchpad` section.\n\n## Stopping Conditions\nThe process should stop and complete when:\n1. All success criteria in the scratchpad have been met\n2. No new information can be obtained through further actions\n3. The user\'s original question has been fully answered\n4. The Executor reports inability to proceed (in feedback section)\n\nPlease note:\n\n* Task completion should only be announced by the Planner, not the Executor. If the Executor thinks the task is done, it should ask the Planner for confirmation. Then the Planner needs to do some cross-checking.\n* Avoid rewriting the entire document unless necessary;\n* Avoid deleting records left by other roles; you can append new paragraphs or mark old paragraphs as outdated;\n* When new external information is needed, the Planner should ask the Executor to gather this information using the available tools;\n* Before executing any large-scale changes or critical functionality, the Executor should first notify the Planner in \"Executor\'s Feedback or Assistance Requests\" to ensure everyone understands the consequences.\n* During your interaction with the user, if you find anything reusable in this project (e.g. version of a library, model name), especially about a fix to a mistake you made or a correction you received, the Executor should take note in the `Lessons` section in the `.cursorrules` file so you will not make the same mistake again.\n\n# Lessons\n\n## User Specified Lessons\n\n- You have a python venv in ./venv. Use it.\n- Include info useful for debugging in the program output.\n- Read the file before you try to edit it.\n- Due to Cursor\'s limit, when you use `git` and `gh` and need to submit a multiline commit message, first write the message in a file, and then use `git commit -F <filename>` or similar command to commit. And then remove the file. Include \"[Cursor] \" in the commit message and PR title.\n- Always work in the good_will_hunter directory, which is the main code repository. Do not operate in wrong directories.\n- **ALWAYS** check your current location in the terminal before running any commands using `pwd`. This prevents executing commands in the wrong directory.\n- **ALWAYS** ask the user which virtual environment folder to use (e.g. venv, open, etc.) before activating any Python environment. Don\'t make assumptions about which venv to use.\n- Final reports must be professional, thorough, and well-organized:\n  * Consolidate all insights from MCTS iterations into a cohesive narrative\n  * Focus on high-level insights and findings, not the iteration process\n  * Include only final visualizations and data enrichments, not code execution details\n  * Use proper formatting with clear sections, headings, and visual organization\n  * Ensure all data sources and references are properly cited\n  * Present information in a logical flow with executive summary, main findings, and conclusions\n  * Include relevant charts, diagrams, and visualizations from final scripts only\n  * Maintain consistent formatting and professional appearance throughout\n\n## Cursor learned\n\n(This section can be updated by the Executor as new learnings emerge during project execution)\n\n# FYI, below is the format of the Multi-Agent Scratchpad\n\n## Background and Motivation\n(Planner writes: User/business requirements, macro objectives, why this problem needs to be solved)\n\n## Key Challenges and Analysis\n(Planner: Records of technical barriers, resource constraints, potential risks)\n\n## Core User Flow and Value Chain\n(Executor supplements: Core user process and value chain analysis)\n\n## Verifiable Success Criteria\n(Planner: List measurable or verifiable goals to be achieved)\n\n## High-level Task Breakdown\n(Planner: List subtasks by phase, or break down into modules)\n\n## Current Status / Progress Tracking\n(Executor: Update completion status after each subtask. If needed, use bullet points or tables to show Done/In progress/Blocked status)\n\n## Executor\'s Feedback or Assistance Requests\n(Executor: Write here when encountering blockers, questions, or need for more information during execution)\n\n## Next Steps and Action Items\n(Planner: Specific arrangements for the Executor)",
-        "type": "text"
+// Workspace files to show the planner, shared by the planning tools
+const WORKSPACE_SCHEMA = {
+    type: "object",
+    description: "Files from the workspace root to attach to the request, packed into a token budget. Named files come first, then the diff, then glob matches; when the budget runs out, lower-priority content is truncated, reduced to an outline or left out",
+    properties: {
+        files: {
+            type: "array",
+            description: "Paths relative to the workspace root",
+            items: { type: "string", minLength: 1 }
+        },
+        globs: {
+            type: "array",
+            description: "Glob patterns relative to the workspace root, e.g. src/**/*.ts",
+            items: { type: "string", minLength: 1 }
+        },
+        git_diff: {
+            type: "string",
+            minLength: 1,
+            description: "Attach `git diff <ref>` of the working tree, e.g. HEAD or main"
+        },
+        max_tokens: {
+            type: "integer",
+            minimum: 1,
+            description: "Token budget for the attached files (defaults to the workspace.max_tokens config key, or 32000)"
+        }
     }
-];
+};
 
-// Define default planner content for the multi-agent system
-const DEFAULT_PLANNER_CONTENT = [
-    {
-        "text": "# Planner Agent\n\nYou are the Planner in a multi-agent collaboration system. Your role is to provide high-level guidance, analysis, and task breakdown. You analyze the Executor's work and provide strategic direction.\n\n## Your Responsibilities\n\n- Break down complex problems into manageable tasks\n- Define clear success criteria for the project\n- Analyze technical challenges and propose solutions\n- Review the Executor's progress and provide guidance\n- Make critical decisions about project direction\n- Use advanced reasoning models (o1, o1-preview) for deep analysis\n\n## When Responding to the Executor\n\nWhen the Executor reports progress or asks for guidance, analyze their request carefully and respond with clear instructions in the `Next Steps and Action Items` section. Use this format:\n\n```\n[PLANNER RESPONSE]\nAnalysis: {Your assessment of the current situation}\nDecision: {Your decision about how to proceed}\nNext Steps:\n1. {Clear, actionable instruction}\n2. {Another instruction}\n...\nConsiderations: {Important factors the Executor should keep in mind}\n```\n\nThink deeply about the problem. Prioritize agility but don't over-engineer. Foresee challenges and derisk earlier. If opportunity sizing or probing experiments can reduce risk with low cost, instruct the Executor to do them.",
-        "type": "text"
+// Conversation so far for the planning tools, in the Executor's words
+const PLAN_MESSAGES_SCHEMA = {
+    type: "array",
+    description: "Array of messages to send to the API. User messages are sent as [EXECUTOR REQUEST]s, assistant messages as earlier [PLANNER RESPONSE]s",
+    items: {
+        type: "object",
+        properties: {
+            role: {
+                type: "string",
+                enum: ["system", "user", "assistant", "developer"],
+                description: "Role of the message sender"
+            },
+            content: {
+                oneOf: [
+                    {
+                        type: "string",
+                        description: "Content of the message as string"
+                    },
+                    {
+                        type: "array",
+                        description: "Content of the message as array of content parts",
+                        items: {
+                            type: "object",
+                            properties: {
+                                type: {
+                                    type: "string",
+                                    enum: ["text"],
+                                    description: "Type of content part"
+                                },
+                                text: {
+                                    type: "string",
+                                    description: "Text content"
+                                }
+                            },
+                            required: ["type", "text"]
+                        }
+                    }
+                ]
+            }
+        },
+        required: ["role", "content"]
     }
-];
-
-// Define available tools
-const TOOLS: Tool[] = [
-    {
-        name: "openai_chat",
-        description: `Use this tool when a user specifically requests to use one of OpenAI's models (${SUPPORTED_MODELS.join(", ")}). This tool sends messages to OpenAI's chat completion API using the specified model.`,
-        inputSchema: {
-            type: "object",
-            properties: {
-                messages: {
-                    type: "array",
-                    description: "Array of messages to send to the API",
-                    items: {
+};
+
+// Tool definitions, derived from the model registry (built-in models merged with the config file).
+// Provider clients are created on first use, so credentials are only needed for providers that are called.
+function buildTools(): Tool[] {
+    const registry = getModelRegistry();
+    const chatModels = modelsForRole("chat");
+    const planModels = modelsForRole("plan");
+    const consensus = getConsensusSettings();
+
+    return [
+        {
+            name: "openai_chat",
+            description: `Use this tool when a user specifically requests to use one of OpenAI's models (${chatModels.join(", ")}). This tool sends messages to OpenAI's chat completion API using the specified model.`,
+            inputSchema: {
+                type: "object",
+                properties: {
+                    messages: {
+                        type: "array",
+                        description: "Array of messages to send to the API",
+                        minItems: 1,
+                        items: {
+                            type: "object",
+                            properties: {
+                                role: {
+                                    type: "string",
+                                    enum: ["system", "user", "assistant"],
+                                    description: "Role of the message sender"
+                                },
+                                content: {
+                                    type: "string",
+                                    description: "Content of the message"
+                                }
+                            },
+                            required: ["role", "content"]
+                        }
+                    },
+                    model: {
+                        type: "string",
+                        enum: modelNamesForRole("chat"),
+                        description: `Model to use for completion (${chatModels.join(", ")})`,
+                        default: registry.default_chat_model
+                    }
+                },
+                required: ["messages"]
+            }
+        },
+        {
+            name: "openai_plan",
+            description: `Use this tool when a user specifically requests to do planning with one of OpenAI's models (${planModels.join(", ")}). This tool sends messages to OpenAI's chat completion API with a specified reasoning_effort level (low, medium, high).`,
+            inputSchema: {
+                type: "object",
+                properties: {
+                    messages: PLAN_MESSAGES_SCHEMA,
+                    model: {
+                        type: "string",
+                        enum: modelNamesForRole("plan"),
+                        description: "reasoning model to use for completion",
+                        default: registry.default_plan_model
+                    },
+                    reasoning_effort: {
+                        type: "string",
+                        enum: REASONING_EFFORT_LEVELS,
+                        description: "Level of reasoning effort to use (low, medium, high)",
+                        default: DEFAULT_REASONING_EFFORT
+                    },
+                    response_format: {
                         type: "object",
                         properties: {
-                            role: {
+                            type: {
                                 type: "string",
-                                enum: ["system", "user", "assistant"],
-                                description: "Role of the message sender"
-                            },
-                            content: {
-                                type: "string",
-                                description: "Content of the message"
+                                enum: ["text", "structured"],
+                                description: "Type of response format. \"structured\" also returns the [PLANNER RESPONSE] as a JSON plan object with one item per next step"
                             }
                         },
-                        required: ["role", "content"]
+                        default: { type: "text" }
+                    },
+                    include_scratchpad: {
+                        type: "boolean",
+                        description: "Attach the current Multi-Agent Scratchpad from .cursorrules to the request",
+                        default: false
+                    },
+                    include_tasks: {
+                        type: "boolean",
+                        description: "Attach the state of the task tracker (see task_list) to the request, when it has any tasks",
+                        default: true
+                    },
+                    workspace: WORKSPACE_SCHEMA,
+                    update_scratchpad: {
+                        type: "boolean",
+                        description: "Append the planner's reply to the \"Next Steps and Action Items\" section of the scratchpad",
+                        default: false
+                    },
+                    update_tasks: {
+                        type: "boolean",
+                        description: "Add the Next Steps of the planner's reply to the task tracker, as task_import does",
+                        default: false
+                    },
+                    session_id: {
+                        type: "string",
+                        description: "Planning session to continue. Earlier turns of the session are sent before these messages, and the new request and reply are saved to it"
+                    },
+                    task: {
+                        type: "string",
+                        description: "Task the Executor is working on (defaults to \"Project planning/implementation\")"
+                    },
+                    status: {
+                        type: "string",
+                        description: "Current status of the task (defaults to \"Seeking guidance\")"
+                    },
+                    blockers: {
+                        type: "string",
+                        description: "What is keeping the Executor from making progress"
+                    },
+                    question: {
+                        type: "string",
+                        minLength: 1,
+                        description: "What the Executor needs from the Planner. Sent as a new user turn after the messages; when omitted, task, status and blockers describe the last user message"
+                    },
+                    agent: {
+                        type: "boolean",
+                        description: "Let the planner inspect the workspace with read-only functions (list_dir, read_file, grep, read_scratchpad_section) before answering. The function calls it made are returned as a trace. Needs a model with function calling",
+                        default: false
+                    },
+                    max_iterations: {
+                        type: "integer",
+                        minimum: 1,
+                        maximum: MAX_AGENT_ITERATIONS,
+                        description: "Most model calls in agent mode, including the final answer (defaults to the agent.max_iterations config key, or 8)"
                     }
-                },
-                model: {
-                    type: "string",
-                    enum: SUPPORTED_MODELS,
-                    description: `Model to use for completion (${SUPPORTED_MODELS.join(", ")})`,
-                    default: DEFAULT_CHAT_MODEL
                 }
-            },
-            required: ["messages"]
-        }
-    },
-    {
-        name: "openai_plan",
-        description: `Use this tool when a user specifically requests to do planning with one of OpenAI's models (${SUPPORTED_MODELS.join(", ")}). This tool sends messages to OpenAI's chat completion API with a specified reasoning_effort level (low, medium, high).`,
-        inputSchema: {
-            type: "object",
-            properties: {
-                messages: {
-                    type: "array",
-                    description: "Array of messages to send to the API",
-                    items: {
-                        type: "object",
-                        properties: {
-                            role: {
-                                type: "string",
-                                enum: ["system", "user", "assistant", "developer"],
-                                description: "Role of the message sender"
+            }
+        },
+        {
+            name: "openai_consensus_plan",
+            description: `Use this tool for high-stakes planning (e.g. architecture decisions) where a second opinion is worth the extra cost. It sends the same executor request as openai_plan to several planners (models or reasoning_effort levels) in parallel, then a judge model marks where they agree and disagree and merges them into one [PLANNER RESPONSE]. The individual drafts are returned too.`,
+            inputSchema: {
+                type: "object",
+                properties: {
+                    messages: PLAN_MESSAGES_SCHEMA,
+                    task: {
+                        type: "string",
+                        description: "Task the Executor is working on"
+                    },
+                    status: {
+                        type: "string",
+                        description: "Current status of the task"
+                    },
+                    blockers: {
+                        type: "string",
+                        description: "What is keeping the Executor from making progress"
+                    },
+                    question: {
+                        type: "string",
+                        minLength: 1,
+                        description: "What the Executor needs from the Planner, sent as a new user turn after the messages"
+                    },
+                    planners: {
+                        type: "array",
+                        description: "Planners to consult in parallel (defaults to the consensus.planners config key, or the default planning model at each reasoning_effort level)",
+                        minItems: 2,
+                        items: {
+                            type: "object",
+                            properties: {
+                                model: {
+                                    type: "string",
+                                    enum: modelNamesForRole("plan"),
+                                    description: "Reasoning model for this draft"
+                                },
+                                reasoning_effort: {
+                                    type: "string",
+                                    enum: REASONING_EFFORT_LEVELS,
+                                    description: "Level of reasoning effort for this draft",
+                                    default: DEFAULT_REASONING_EFFORT
+                                }
                             },
-                            content: {
-                                oneOf: [
-                                    {
-                                        type: "string",
-                                        description: "Content of the message as string"
-                                    },
-                                    {
-                                        type: "array",
-                                        description: "Content of the message as array of content parts",
-                                        items: {
-                                            type: "object",
-                                            properties: {
-                                                type: {
-                                                    type: "string",
-                                                    enum: ["text"],
-                                                    description: "Type of content part"
-                                                },
-                                                text: {
-                                                    type: "string",
-                                                    description: "Text content"
-                                                }
-                                            },
-                                            required: ["type", "text"]
-                                        }
-                                    }
-                                ]
-                            }
+                            required: ["model"]
                         },
-                        required: ["role", "content"]
+                        default: consensus.planners
+                    },
+                    judge_model: {
+                        type: "string",
+                        enum: modelNamesForRole(),
+                        description: "Model that compares and merges the drafts",
+                        default: consensus.judge_model
+                    },
+                    include_scratchpad: {
+                        type: "boolean",
+                        description: "Attach the current Multi-Agent Scratchpad from .cursorrules to the request",
+                        default: false
+                    },
+                    include_tasks: {
+                        type: "boolean",
+                        description: "Attach the state of the task tracker (see task_list) to the request, when it has any tasks",
+                        default: true
+                    },
+                    workspace: WORKSPACE_SCHEMA,
+                    update_scratchpad: {
+                        type: "boolean",
+                        description: "Append the merged reply to the \"Next Steps and Action Items\" section of the scratchpad",
+                        default: false
+                    },
+                    update_tasks: {
+                        type: "boolean",
+                        description: "Add the Next Steps of the merged reply to the task tracker, as task_import does",
+                        default: false
+                    },
+                    session_id: {
+                        type: "string",
+                        description: "Planning session to continue. The new request and the merged reply are saved to it"
+                    }
+                }
+            }
+        },
+        {
+            name: "openai_review",
+            description: "Use this tool before declaring a task complete. A planning model grades the Executor's evidence (test output, diffs, workspace files, notes) against the agreed success criteria and returns a pass/fail verdict for each criterion, with the reasons and the follow-up actions still needed. The task passes only when every criterion passes.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    criteria: {
+                        type: "array",
+                        description: "Success criteria to check (defaults to the success criteria of task_id)",
+                        minItems: 1,
+                        items: { type: "string", minLength: 1 }
+                    },
+                    task_id: {
+                        type: "string",
+                        description: "Tracked task under review (see task_list). Its title and success criteria are used unless given here"
+                    },
+                    task: {
+                        type: "string",
+                        description: "What the Executor was asked to do"
+                    },
+                    test_output: {
+                        type: "string",
+                        description: "Output of the test run"
+                    },
+                    diff: {
+                        type: "string",
+                        description: "Diff of the changes"
+                    },
+                    notes: {
+                        type: "string",
+                        description: "The Executor's own notes on what was done and how it was checked"
+                    },
+                    workspace: WORKSPACE_SCHEMA,
+                    model: {
+                        type: "string",
+                        enum: modelNamesForRole("plan"),
+                        description: "Reasoning model to review with",
+                        default: registry.default_plan_model
+                    },
+                    reasoning_effort: {
+                        type: "string",
+                        enum: REASONING_EFFORT_LEVELS,
+                        description: "Level of reasoning effort to use (low, medium, high)",
+                        default: DEFAULT_REASONING_EFFORT
+                    },
+                    update_task: {
+                        type: "boolean",
+                        description: "Record the outcome on task_id: mark it done when every criterion passes, otherwise put the follow-ups in its notes",
+                        default: false
+                    }
+                }
+            }
+        },
+        {
+            name: "scratchpad_read",
+            description: "Read the Multi-Agent Scratchpad from the .cursorrules file, either whole or a single section.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    section: {
+                        type: "string",
+                        enum: SCRATCHPAD_SECTIONS,
+                        description: "Section to read (omit to read every section)"
+                    }
+                }
+            }
+        },
+        {
+            name: "scratchpad_append",
+            description: "Append text to one section of the Multi-Agent Scratchpad in the .cursorrules file without rewriting the other sections.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    section: {
+                        type: "string",
+                        enum: SCRATCHPAD_SECTIONS,
+                        description: "Section to append to"
+                    },
+                    content: {
+                        type: "string",
+                        description: "Markdown text to append to the end of the section"
                     }
                 },
-                model: {
-                    type: "string",
-                    enum: ["o1-preview", "o1-mini", "o1", "o3-mini"],
-                    description: "reasoning model to use for completion",
-                    default: DEFAULT_PLAN_MODEL
+                required: ["section", "content"]
+            }
+        },
+        {
+            name: "openai_usage",
+            description: "Report token usage and estimated cost of OpenAI calls made through this server, by model, tool and session, along with the configured budgets.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    since: {
+                        type: "string",
+                        description: "Only include calls at or after this ISO 8601 date/time (e.g. 2025-03-01)"
+                    },
+                    until: {
+                        type: "string",
+                        description: "Only include calls before this ISO 8601 date/time"
+                    },
+                    session_id: {
+                        type: "string",
+                        description: "Only include calls made for this planning session"
+                    }
+                }
+            }
+        },
+        {
+            name: "session_list",
+            description: "List saved planning sessions, most recently updated first.",
+            inputSchema: {
+                type: "object",
+                properties: {}
+            }
+        },
+        {
+            name: "session_show",
+            description: "Show the full transcript of a saved planning session.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    session_id: {
+                        type: "string",
+                        description: "Session to show"
+                    }
+                },
+                required: ["session_id"]
+            }
+        },
+        {
+            name: "session_fork",
+            description: "Copy a planning session under a new id so an alternative direction can be explored without changing the original.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    session_id: {
+                        type: "string",
+                        description: "Session to fork"
+                    },
+                    new_session_id: {
+                        type: "string",
+                        description: "Id for the new session (generated when omitted)"
+                    },
+                    up_to: {
+                        type: "integer",
+                        minimum: 0,
+                        description: "Only copy the first N messages of the source session"
+                    }
                 },
-                reasoning_effort: {
-                    type: "string",
-                    enum: REASONING_EFFORT_LEVELS,
-                    description: "Level of reasoning effort to use (low, medium, high)",
-                    default: DEFAULT_REASONING_EFFORT
+                required: ["session_id"]
+            }
+        },
+        {
+            name: "session_delete",
+            description: "Delete a saved planning session.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    session_id: {
+                        type: "string",
+                        description: "Session to delete"
+                    }
                 },
-                response_format: {
-                    type: "object",
-                    properties: {
-                        type: {
-                            type: "string",
-                            enum: ["text"],
-                            description: "Type of response format"
-                        }
+                required: ["session_id"]
+            }
+        },
+        {
+            name: "task_list",
+            description: "List the tasks in the task tracker as a tree, with status, owner, dependencies and success criteria, and which tasks are ready to start.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    status: {
+                        type: "string",
+                        enum: TASK_STATUSES,
+                        description: "Only list tasks with this status"
+                    },
+                    owner: {
+                        type: "string",
+                        enum: TASK_OWNERS,
+                        description: "Only list tasks owned by this role"
                     },
-                    default: { type: "text" }
+                    root: {
+                        type: "string",
+                        description: "Only list this task and its subtasks"
+                    },
+                    format: {
+                        type: "string",
+                        enum: ["text", "json"],
+                        description: "\"text\" for a markdown checklist, \"json\" for the task objects",
+                        default: "text"
+                    }
                 }
-            },
-            required: ["messages"]
+            }
+        },
+        {
+            name: "task_update",
+            description: "Create a task in the task tracker, or update one. Without an id a new task is created (title required); with an id only the given fields change. Use it to report progress: set status to in_progress, blocked or done and put the details in notes.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    id: {
+                        type: "string",
+                        minLength: 1,
+                        description: "Task to update (omit to create a task)"
+                    },
+                    title: {
+                        type: "string",
+                        minLength: 1,
+                        description: "Short description of the task"
+                    },
+                    description: {
+                        type: "string",
+                        description: "Longer description (an empty string clears it)"
+                    },
+                    status: {
+                        type: "string",
+                        enum: TASK_STATUSES,
+                        description: "Task status (new tasks start as todo)"
+                    },
+                    owner: {
+                        type: "string",
+                        enum: TASK_OWNERS,
+                        description: "Role responsible for the task (new tasks default to executor)"
+                    },
+                    parent: {
+                        type: "string",
+                        description: "Task this is a subtask of (an empty string makes it a top-level task)"
+                    },
+                    depends_on: {
+                        type: "array",
+                        description: "Tasks that must be done before this one can start. Replaces the current list",
+                        items: { type: "string", minLength: 1 }
+                    },
+                    success_criteria: {
+                        type: "array",
+                        description: "Verifiable conditions for calling the task done. Replaces the current list",
+                        items: { type: "string", minLength: 1 }
+                    },
+                    notes: {
+                        type: "string",
+                        description: "Latest progress report or blocker (an empty string clears it)"
+                    }
+                }
+            }
+        },
+        {
+            name: "task_delete",
+            description: "Delete a task from the task tracker, with its subtasks.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    id: {
+                        type: "string",
+                        description: "Task to delete"
+                    }
+                },
+                required: ["id"]
+            }
+        },
+        {
+            name: "task_import",
+            description: "Add the Next Steps of a [PLANNER RESPONSE] to the task tracker as executor tasks, each depending on the one before. Steps that are already tracked under the same parent are skipped.",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    text: {
+                        type: "string",
+                        minLength: 1,
+                        description: "The planner's reply"
+                    },
+                    parent: {
+                        type: "string",
+                        description: "Task to add the steps under as subtasks"
+                    }
+                },
+                required: ["text"]
+            }
         }
+    ];
+}
+
+// Built on first use rather than at import, so a broken config file fails in main() and is reported
+// like any other startup error
+let tools: Tool[] | undefined;
+
+function getTools(): Tool[] {
+    tools ??= buildTools();
+    return tools;
+}
+
+// Servers with a live connection (one for stdio, one per client over HTTP), with the resource URIs
+// each client subscribed to
+const connectedServers = new Map<Server, Set<string>>();
+
+// Send resources/updated for the URIs each client subscribed to, and list_changed to every client
+// when resources were added or removed
+async function notifyResourcesUpdated(uris: string[], listChanged: boolean): Promise<void> {
+    await Promise.all([...connectedServers].flatMap(([server, subscriptions]) => [
+        ...uris.filter(uri => subscriptions.has(uri)).map(uri =>
+            server.sendResourceUpdated({ uri }).catch(() => undefined)
+        ),
+        ...(listChanged ? [server.sendResourceListChanged().catch(() => undefined)] : [])
+    ]));
+}
+
+// Notify subscribed clients that the scratchpad changed
+async function notifyScratchpadUpdated(title: ScratchpadSectionTitle): Promise<void> {
+    await notifyResourcesUpdated([SCRATCHPAD_ALL_URI, sectionUri(title)], false);
+}
+
+// Notify subscribed clients that tasks changed, and that the resource list changed when tasks were
+// created or deleted
+async function notifyTasksUpdated(ids: string[], listChanged: boolean): Promise<void> {
+    await notifyResourcesUpdated([TASKS_ALL_URI, ...ids.map(taskUri)], listChanged);
+}
+
+// Track the next steps of a planner reply as tasks
+async function importReplyTasks(plan: PlannerResponse | undefined, parent?: string): Promise<Task[]> {
+    if (!plan) {
+        return [];
     }
-];
-
-// Initialize MCP server
-const server = new Server(
-    {
-        name: "mcp-openai",
-        version: "0.1.1",
-    },
-    {
-        capabilities: {
-            tools: {}
-        }
+    const created = await importPlanSteps(plan, parent);
+    if (created.length > 0) {
+        await notifyTasksUpdated(created.map(task => task.id), true);
     }
-);
-
-// Register handler for tool listing
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: TOOLS
-}));
-
-// Register handler for tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request): Promise<{
-    content: TextContent[];
-    isError?: boolean;
-}> => {
-    switch (request.params.name) {
-        case "openai_chat": {
-            try {
-                // Parse request arguments
-                const { messages: rawMessages, model } = request.params.arguments as {
-                    messages: Array<{ role: string; content: string }>;
-                    model?: SupportedModel;
-                };
+    return created;
+}
+
+// Create an MCP server with all handlers registered. Each connection gets its own server;
+// sessions, the cache, the usage ledger and the scratchpad are shared through the filesystem.
+function createServer(): Server {
+    const server = new Server(
+        {
+            name: "mcp-openai",
+            version: "0.1.1",
+        },
+        {
+            capabilities: {
+                tools: {},
+                resources: { subscribe: true, listChanged: true },
+                prompts: {}
+            }
+        }
+    );
 
-                // Validate model
-                if (!SUPPORTED_MODELS.includes(model!)) {
-                    throw new Error(`Unsupported model: ${model}. Must be one of: ${SUPPORTED_MODELS.join(", ")}`);
+    // Register handler for tool listing
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+        tools: getTools()
+    }));
+
+    // Register handler for resource listing: the whole scratchpad plus one resource per section,
+    // and the task tracker plus one resource per task
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+        resources: [
+            {
+                uri: SCRATCHPAD_ALL_URI,
+                name: "Multi-Agent Scratchpad",
+                description: "All sections of the Multi-Agent Scratchpad in .cursorrules",
+                mimeType: "text/markdown"
+            },
+            ...SCRATCHPAD_SECTIONS.map(title => ({
+                uri: sectionUri(title),
+                name: `Scratchpad: ${title}`,
+                description: `The "${title}" section of the Multi-Agent Scratchpad`,
+                mimeType: "text/markdown"
+            })),
+            {
+                uri: TASKS_ALL_URI,
+                name: "Task tracker",
+                description: "Every tracked task with its status, owner, dependencies and success criteria",
+                mimeType: "application/json"
+            },
+            ...(await loadTasks()).map(task => ({
+                uri: taskUri(task.id),
+                name: `Task ${task.id}: ${task.title}`,
+                description: `Task ${task.id} (${task.status}, ${task.owner})`,
+                mimeType: "application/json"
+            }))
+        ]
+    }));
+
+    // Register handler for resource reads
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+        const taskTarget = resolveTaskUri(request.params.uri);
+        if (taskTarget) {
+            const tasks = await loadTasks();
+            const value = taskTarget === "all" ? tasks : tasks.find(task => task.id === taskTarget);
+            if (!value) {
+                throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${request.params.uri}`);
+            }
+            return {
+                contents: [{
+                    uri: request.params.uri,
+                    mimeType: "application/json",
+                    text: JSON.stringify(value, null, 2)
+                }]
+            };
+        }
+
+        const target = resolveScratchpadUri(request.params.uri);
+        if (!target) {
+            throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${request.params.uri}`);
+        }
+
+        const scratchpad = await loadScratchpad();
+        const text = target === "all"
+            ? formatScratchpad(scratchpad)
+            : findSection(scratchpad, target)?.content ?? "";
+        return {
+            contents: [{
+                uri: request.params.uri,
+                mimeType: "text/markdown",
+                text
+            }]
+        };
+    });
+
+    // Register handlers for resource subscriptions. Any task URI is accepted, so a client can follow a
+    // task before it exists.
+    const subscriptions = new Set<string>();
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        if (!resolveTaskUri(request.params.uri) && !resolveScratchpadUri(request.params.uri)) {
+            throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${request.params.uri}`);
+        }
+        subscriptions.add(request.params.uri);
+        return {};
+    });
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscriptions.delete(request.params.uri);
+        return {};
+    });
+
+    // Register handler for prompt listing: the planner/executor templates
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+        prompts: TEMPLATES.map(({ name, description, arguments: args }) => ({
+            name,
+            description,
+            arguments: args.map(({ name, description, required }) => ({ name, description, required }))
+        }))
+    }));
+
+    // Register handler for prompt retrieval, rendering the template with the given arguments
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+        const template = findTemplate(request.params.name);
+        if (!template) {
+            throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+        }
+
+        const args = request.params.arguments ?? {};
+        const missing = template.arguments.filter(arg => arg.required && !args[arg.name]);
+        if (missing.length > 0) {
+            throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for ${template.name}: ${missing.map(arg => arg.name).join(", ")}`);
+        }
+
+        return {
+            description: template.description,
+            messages: [{
+                role: "user",
+                content: {
+                    type: "text",
+                    text: await renderTemplate(template.name as TemplateName, args)
                 }
+            }]
+        };
+    });
 
-                // Convert messages to OpenAI's expected format
-                const messages: ChatCompletionMessageParam[] = rawMessages.map(msg => {
-                    if (msg.role === 'developer') {
+    // Register handler for tool execution
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra): Promise<{
+        content: TextContent[];
+        isError?: boolean;
+    }> => {
+        const tool = getTools().find(tool => tool.name === request.params.name);
+        if (!tool) {
+            throw new McpError(
+                ErrorCode.MethodNotFound,
+                `Unknown tool: ${request.params.name}`
+            );
+        }
+        // Check the arguments against the advertised input schema and fill in its defaults
+        const args = validateArguments(tool.name, tool.inputSchema as JsonSchema, request.params.arguments);
+
+        switch (tool.name) {
+            case "openai_chat": {
+                try {
+                    // Parse request arguments
+                    const { messages: rawMessages, model } = args as {
+                        messages: Array<{ role: string; content: string }>;
+                        model: string;
+                    };
+
+                    // Validate model
+                    const modelConfig = resolveModel(model, "chat");
+
+                    // Convert messages to OpenAI's expected format
+                    const messages: ChatCompletionMessageParam[] = rawMessages.map(msg => {
+                        if (msg.role === 'developer') {
+                            return { role: 'assistant', content: msg.content };
+                        }
                         return {
-                            role: 'assistant',
-                            content: typeof msg.content === 'string' 
-                                ? msg.content 
-                                : (msg.content as Array<{ type: string; text: string }>)
-                                    .map(part => part.text)
-                                    .join('\n')
+                            role: msg.role as "system" | "user" | "assistant",
+                            content: msg.content
                         };
+                    });
+
+                    // Call OpenAI API with a fixed temperature where the model accepts one
+                    const completion = await createChatCompletion(modelConfig, completionParams(modelConfig, messages, { temperature: 0.7 }), {
+                        signal: extra.signal,
+                        onProgress: progressNotifier(server, request.params._meta?.progressToken, modelConfig.id),
+                        usage: { tool: "openai_chat" }
+                    });
+
+                    // Return the response
+                    return {
+                        content: [{
+                            type: "text",
+                            text: completion.choices[0]?.message?.content || "No response received"
+                        }]
+                    };
+                } catch (error) {
+                    // Surface a distinct error code per failure kind so agents can tell bad input from transient failures
+                    throw toMcpError(error);
+                }
+            }
+            case "openai_plan": {
+                try {
+                    // Parse request arguments
+                    const { messages: planMessages = [], model, reasoning_effort, response_format, include_scratchpad, include_tasks, workspace, update_scratchpad, update_tasks, session_id, task, status, blockers, question, agent, max_iterations = getDefaultMaxIterations() } = args as {
+                        messages?: PlanMessage[];
+                        model: string;
+                        reasoning_effort: ReasoningEffortLevel;
+                        response_format: { type?: string };
+                        include_scratchpad: boolean;
+                        include_tasks: boolean;
+                        workspace?: WorkspaceRequest;
+                        update_scratchpad: boolean;
+                        update_tasks: boolean;
+                        session_id?: string;
+                        task?: string;
+                        status?: string;
+                        blockers?: string;
+                        question?: string;
+                        agent: boolean;
+                        max_iterations?: number;
+                    };
+                    if (question === undefined && !planMessages.some(msg => msg.role === 'user')) {
+                        throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for openai_plan: question is required when messages has no user message");
+                    }
+
+                    // Validate model is a registered planning model
+                    const modelConfig = resolveModel(model, "plan");
+                    if (agent && !modelConfig.capabilities.function_calling) {
+                        throw plannerError("invalid_request", `Model ${modelConfig.id} does not support function calling, which agent mode needs`);
+                    }
+
+                    // Build the conversation: request fields, session history, scratchpad and workspace files
+                    const { messages, turns } = await buildPlanConversation({
+                        messages: planMessages,
+                        fields: { task, status, blockers, question },
+                        session_id,
+                        include_scratchpad,
+                        include_tasks,
+                        workspace,
+                        agent,
+                        model: modelConfig
+                    });
+
+                    // Structured mode uses JSON-schema output where the model supports it, and parses the text otherwise
+                    const structured = response_format.type === "structured";
+                    const useJsonSchema = structured && modelConfig.capabilities.structured_output;
+
+                    // Call OpenAI API with reasoning_effort
+                    const apiConfig = planCompletionParams(modelConfig, messages, {
+                        reasoning_effort,
+                        response_format: useJsonSchema ? PLANNER_RESPONSE_FORMAT : undefined
+                    });
+
+                    // In agent mode the planner may call the read-only functions before it answers
+                    const completionOptions = {
+                        signal: extra.signal,
+                        onProgress: progressNotifier(server, request.params._meta?.progressToken, modelConfig.id),
+                        usage: { tool: "openai_plan", session_id }
+                    };
+                    const agentResult = agent ? await runAgentLoop(modelConfig, apiConfig, max_iterations, completionOptions) : undefined;
+                    const completion = agentResult?.completion ?? await createChatCompletion(modelConfig, apiConfig, completionOptions);
+                    let reply = completion.choices[0]?.message?.content;
+
+                    let plan: PlannerResponse | undefined;
+                    let planError: string | undefined;
+                    if (structured && reply) {
+                        if (useJsonSchema) {
+                            try {
+                                plan = parsePlannerResponseJson(reply);
+                                // JSON replies are rendered back to the text format for the scratchpad, sessions and the text block
+                                reply = formatPlannerResponse(plan);
+                            } catch (error) {
+                                planError = (error as Error).message;
+                            }
+                        }
+                        if (!plan) {
+                            plan = parsePlannerResponseText(reply);
+                            if (!plan) {
+                                planError ??= "Planner reply does not follow the [PLANNER RESPONSE] format";
+                            }
+                        }
+                    }
+
+                    // Record the planner's reply where the Executor looks for its instructions
+                    if (update_scratchpad && reply) {
+                        await appendToScratchpadSection("Next Steps and Action Items", reply);
+                        await notifyScratchpadUpdated("Next Steps and Action Items");
+                    }
+                    if (update_tasks && reply) {
+                        await importReplyTasks(plan ?? parsePlannerResponseText(reply));
+                    }
+
+                    // Save the new turns so the thread can be picked up later
+                    if (session_id && reply) {
+                        await appendToSession(session_id, [...turns, { role: 'assistant', content: reply }], modelConfig.id);
+                    }
+
+                    // Return the response, followed by the parsed plan in structured mode
+                    const content: TextContent[] = [{
+                        type: "text",
+                        text: reply || "No response received"
+                    }];
+                    if (structured) {
+                        content.push({
+                            type: "text",
+                            text: JSON.stringify(plan ? { plan } : { plan: null, error: planError ?? "No response received" }, null, 2)
+                        });
+                    }
+                    if (agentResult) {
+                        content.push({
+                            type: "text",
+                            text: JSON.stringify({ iterations: agentResult.iterations, trace: agentResult.trace }, null, 2)
+                        });
+                    }
+                    return { content };
+                } catch (error) {
+                    throw toMcpError(error);
+                }
+            }
+            case "openai_consensus_plan": {
+                try {
+                    const { messages: planMessages = [], task, status, blockers, question, planners, judge_model, include_scratchpad, include_tasks, workspace, update_scratchpad, update_tasks, session_id } = args as {
+                        messages?: PlanMessage[];
+                        task?: string;
+                        status?: string;
+                        blockers?: string;
+                        question?: string;
+                        planners: Array<{ model: string; reasoning_effort: ReasoningEffortLevel }>;
+                        judge_model: string;
+                        include_scratchpad: boolean;
+                        include_tasks: boolean;
+                        workspace?: WorkspaceRequest;
+                        update_scratchpad: boolean;
+                        update_tasks: boolean;
+                        session_id?: string;
+                    };
+                    if (question === undefined && !planMessages.some(msg => msg.role === 'user')) {
+                        throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for openai_consensus_plan: question is required when messages has no user message");
+                    }
+
+                    // Same conversation openai_plan would send, to every planner on the panel. The workspace
+                    // budget is counted for the first planner.
+                    const { messages, turns } = await buildPlanConversation({
+                        messages: planMessages,
+                        fields: { task, status, blockers, question },
+                        session_id,
+                        include_scratchpad,
+                        include_tasks,
+                        workspace,
+                        model: resolveModel(planners[0].model, "plan")
+                    });
+
+                    const result = await runConsensusPlan(messages, planners, judge_model, {
+                        signal: extra.signal,
+                        onProgress: label => progressNotifier(server, request.params._meta?.progressToken, label),
+                        usage: { tool: "openai_consensus_plan", session_id }
+                    });
+
+                    // Record the merged reply like a regular planner reply
+                    if (update_scratchpad && result.reply) {
+                        await appendToScratchpadSection("Next Steps and Action Items", result.reply);
+                        await notifyScratchpadUpdated("Next Steps and Action Items");
+                    }
+                    if (update_tasks && result.plan) {
+                        await importReplyTasks(result.plan);
+                    }
+                    if (session_id && result.reply) {
+                        await appendToSession(session_id, [...turns, { role: 'assistant', content: result.reply }], result.judge_model);
                     }
+
+                    // Return the merged response, followed by the comparison and the drafts
+                    const { reply, ...details } = result;
                     return {
-                        role: msg.role as "system" | "user" | "assistant",
-                        content: msg.content
+                        content: [
+                            {
+                                type: "text",
+                                text: reply || `No merged response: ${result.error}`
+                            },
+                            {
+                                type: "text",
+                                text: JSON.stringify(details, null, 2)
+                            }
+                        ],
+                        isError: !reply
                     };
-                });
+                } catch (error) {
+                    throw toMcpError(error);
+                }
+            }
+            case "openai_review": {
+                try {
+                    const { criteria, task_id, task, test_output, diff, notes, workspace, model, reasoning_effort, update_task } = args as {
+                        criteria?: string[];
+                        task_id?: string;
+                        task?: string;
+                        test_output?: string;
+                        diff?: string;
+                        notes?: string;
+                        workspace?: WorkspaceRequest;
+                        model: string;
+                        reasoning_effort: ReasoningEffortLevel;
+                        update_task: boolean;
+                    };
+
+                    // Criteria come from the arguments, or from the tracked task
+                    const tracked = task_id ? (await loadTasks()).find(item => item.id === task_id) : undefined;
+                    if (task_id && !tracked) {
+                        throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for openai_review: task not found: ${task_id}`);
+                    }
+                    const reviewCriteria = criteria ?? tracked?.success_criteria ?? [];
+                    if (reviewCriteria.length === 0) {
+                        throw new McpError(ErrorCode.InvalidParams, tracked
+                            ? `Invalid arguments for openai_review: task ${task_id} has no success criteria, so criteria is required`
+                            : "Invalid arguments for openai_review: criteria or task_id is required");
+                    }
+                    if (update_task && !tracked) {
+                        throw new McpError(ErrorCode.InvalidParams, "Invalid arguments for openai_review: update_task needs task_id");
+                    }
 
-                // Call OpenAI API with fixed temperature
-                const completion = await openai.chat.completions.create({
-                    messages: messages as any,
-                    model: model!,
-                    temperature: 0.7,
-                    max_tokens: 2000
-                });
+                    const modelConfig = resolveModel(model, "plan");
+                    const result = await runReview(modelConfig, {
+                        task: task ?? (tracked && [tracked.title, tracked.description].filter(Boolean).join("\n")),
+                        criteria: reviewCriteria,
+                        test_output,
+                        diff,
+                        notes,
+                        workspace,
+                        reasoning_effort
+                    }, {
+                        signal: extra.signal,
+                        onProgress: progressNotifier(server, request.params._meta?.progressToken, modelConfig.id),
+                        usage: { tool: "openai_review" }
+                    });
+
+                    // Only the reviewer's pass closes a task; a failed review leaves the follow-ups on it
+                    if (update_task && tracked && result.verdict) {
+                        const followUps = result.criteria.flatMap(item => item.follow_ups);
+                        const updated = await updateTask(tracked.id, result.verdict === "pass"
+                            ? { status: "done", notes: `Review passed: ${result.summary}` }
+                            : { notes: [`Review failed: ${result.summary}`, ...followUps.map(action => `- ${action}`)].join("\n") });
+                        await notifyTasksUpdated([updated.id], false);
+                    }
+
+                    const { reply, ...details } = result;
+                    return {
+                        content: [
+                            {
+                                type: "text",
+                                text: result.verdict ? formatReview(result) : `No review verdict: ${result.error}${reply ? `\n\n${reply}` : ""}`
+                            },
+                            {
+                                type: "text",
+                                text: JSON.stringify(details, null, 2)
+                            }
+                        ],
+                        isError: !result.verdict
+                    };
+                } catch (error) {
+                    throw toMcpError(error);
+                }
+            }
+            case "scratchpad_read": {
+                const { section } = args as {
+                    section?: ScratchpadSectionTitle;
+                };
+
+                const scratchpad = await loadScratchpad();
+                if (!scratchpad.exists) {
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `No scratchpad found at ${scratchpad.path}`
+                        }],
+                        isError: true
+                    };
+                }
 
-                // Return the response
                 return {
                     content: [{
                         type: "text",
-                        text: completion.choices[0]?.message?.content || "No response received"
+                        text: section
+                            ? findSection(scratchpad, section)?.content || `Section "${section}" is empty or missing`
+                            : formatScratchpad(scratchpad)
                     }]
                 };
-            } catch (error) {
+            }
+            case "scratchpad_append": {
+                const { section, content } = args as {
+                    section: ScratchpadSectionTitle;
+                    content: string;
+                };
+
+                const scratchpad = await appendToScratchpadSection(section, content);
+                await notifyScratchpadUpdated(section);
                 return {
                     content: [{
                         type: "text",
-                        text: `OpenAI API error: ${(error as Error).message}`
-                    }],
-                    isError: true
+                        text: `Appended to "${section}" in ${scratchpad.path}`
+                    }]
                 };
             }
-        }
-        case "openai_plan": {
-            try {
-                // Parse request arguments
-                const { messages: rawMessages, model = "o1-2024-12-17", reasoning_effort = DEFAULT_REASONING_EFFORT, response_format = { type: "text" } } = request.params.arguments as {
-                    messages: Array<{ 
-                        role: string; 
-                        content: string | Array<{ type: string; text: string }> 
-                    }>;
-                    model?: SupportedModel;
-                    reasoning_effort?: ReasoningEffortLevel;
-                    response_format?: { type: string };
+            case "openai_usage": {
+                const { since, until, session_id } = args as {
+                    since?: string;
+                    until?: string;
+                    session_id?: string;
                 };
 
-                // Validate model is an o1 model
-                if (!["o1-preview", "o1-mini", "o1-2024-12-17"].includes(model)) {
-                    throw new Error(`Unsupported model for reasoning: ${model}. Must be one of: o1-preview, o1-mini, o1-2024-12-17`);
-                }
-
-                // Convert messages to OpenAI's expected format
-                const messages: ChatCompletionMessageParam[] = rawMessages.map(msg => {
-                    // Handle different content formats
-                    if (msg.role === 'developer') {
-                        // Special case: always use the default developer content for developer role
-                        return {
-                            role: 'developer',
-                            content: DEFAULT_DEVELOPER_CONTENT } as ChatCompletionDeveloperMessageParam;
-                    } else if (typeof msg.content === 'string') {
-                        // Simple string content
-                        if (msg.role === 'system') {
-                            return { role: 'system', content: msg.content } as ChatCompletionSystemMessageParam;
-                        } else if (msg.role === 'user') {
-                            // When user sends a message to openai_plan, they're always acting as an executor
-                            // seeking guidance from the planner (o1)
-                            const executorRequestWrapper = `
-[EXECUTOR REQUEST]
-Task: ${msg.content.toLowerCase().includes('task:') ? msg.content : `Project planning/implementation`}
-Status: ${msg.content.toLowerCase().includes('status:') ? 
-    msg.content.substring(msg.content.toLowerCase().indexOf('status:') + 7).split('\n')[0].trim() : 
-    `Seeking guidance`}
-Question: ${msg.content.replace(/@o1/g, '').replace(/@planner/g, '').trim()}
-
-Please analyze this request and provide guidance on the next steps. Think like a founder. Prioritize agility and don't over-engineer. Think deeply. Try to foresee challenges and derisk earlier.
-`;
-                            return { 
-                                role: 'user', 
-                                content: executorRequestWrapper 
-                            } as ChatCompletionUserMessageParam;
-                        } else if (msg.role === 'assistant') {
-                            // When assistant responds in openai_plan, it's always as the planner
-                            const formattedContent = [
-                                ...DEFAULT_PLANNER_CONTENT,
-                                { type: "text", text: msg.content }
-                            ];
-                            return { 
-                                role: 'assistant', 
-                                content: formattedContent 
-                            } as ChatCompletionAssistantMessageParam;
-                        }
-                    } else if (Array.isArray(msg.content)) {
-                        // Array of content parts
-                        const contentParts: ChatCompletionContentPart[] = msg.content.map(part => ({
-                            type: part.type as "text",
-                            text: part.text
-                        }));
-                        
-                        if (msg.role === 'user') {
-                            // All user messages to openai_plan are from executor to planner
-                            const firstPart = msg.content[0];
-                            const firstPartText = firstPart && 'text' in firstPart ? firstPart.text : '';
-                            
-                            const modifiedContent = [...contentParts];
-                            modifiedContent[0] = {
-                                type: 'text',
-                                text: `
-[EXECUTOR REQUEST]
-Task: ${firstPartText.toLowerCase().includes('task:') ? firstPartText : `Project planning/implementation`}
-Status: ${firstPartText.toLowerCase().includes('status:') ? 
-    firstPartText.substring(firstPartText.toLowerCase().indexOf('status:') + 7).split('\n')[0].trim() : 
-    `Seeking guidance`}
-Question: ${firstPartText.replace(/@o1/g, '').replace(/@planner/g, '').trim()}
-
-Please analyze this request and provide guidance on the next steps. Think like a founder. Prioritize agility and don't over-engineer. Think deeply. Try to foresee challenges and derisk earlier.
-`
-                            };
-                            return { role: 'user', content: modifiedContent } as ChatCompletionUserMessageParam;
-                        } else if (msg.role === 'assistant') {
-                            // All assistant responses in openai_plan are from planner to executor
-                            return { 
-                                role: 'assistant', 
-                                content: [...DEFAULT_PLANNER_CONTENT, ...contentParts] 
-                            } as ChatCompletionAssistantMessageParam;
-                        }
-                    }
-                    
-                    // Default fallback - shouldn't reach here with proper validation
-                    return { role: 'user', content: typeof msg.content === 'string' ? msg.content : 'Invalid content format' } as ChatCompletionUserMessageParam;
-                });
-
-                // Call OpenAI API with reasoning_effort
-                // We use 'any' type here to avoid type incompatibilities between different OpenAI SDK versions
-                const apiConfig: any = {
-                    messages,
-                    model,
-                    response_format: { type: "text" }
-                };
-
-                // Add reasoning_effort parameter only if it's provided
-                if (reasoning_effort) {
-                    apiConfig.reasoning_effort = reasoning_effort;
-                }
-
-                const completion = await openai.chat.completions.create(apiConfig);
-
-                // Return the response
+                const report = await buildUsageReport({ since, until, session_id });
                 return {
                     content: [{
                         type: "text",
-                        text: completion.choices[0]?.message?.content || "No response received"
+                        text: JSON.stringify(report, null, 2)
                     }]
                 };
-            } catch (error) {
+            }
+            case "session_list": {
+                const sessions = await listSessions();
                 return {
                     content: [{
                         type: "text",
-                        text: `OpenAI API error: ${(error as Error).message}`
-                    }],
-                    isError: true
+                        text: sessions.length > 0
+                            ? JSON.stringify(sessions, null, 2)
+                            : "No planning sessions saved yet"
+                    }]
                 };
             }
+            case "session_show": {
+                const { session_id } = args as { session_id: string };
+
+                try {
+                    const session = await loadSession(session_id);
+                    if (!session) {
+                        throw plannerError("invalid_request", `Session not found: ${session_id}`);
+                    }
+                    return {
+                        content: [{
+                            type: "text",
+                            text: formatSession(session)
+                        }]
+                    };
+                } catch (error) {
+                    throw toMcpError(error);
+                }
+            }
+            case "session_fork": {
+                const { session_id, new_session_id, up_to } = args as {
+                    session_id: string;
+                    new_session_id?: string;
+                    up_to?: number;
+                };
+
+                try {
+                    const fork = await forkSession(session_id, new_session_id, up_to);
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `Forked ${session_id} into ${fork.id} (${fork.messages.length} messages)`
+                        }]
+                    };
+                } catch (error) {
+                    throw toMcpError(error);
+                }
+            }
+            case "session_delete": {
+                const { session_id } = args as { session_id: string };
+
+                try {
+                    if (!await deleteSession(session_id)) {
+                        throw plannerError("invalid_request", `Session not found: ${session_id}`);
+                    }
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `Deleted session ${session_id}`
+                        }]
+                    };
+                } catch (error) {
+                    throw toMcpError(error);
+                }
+            }
+            case "task_list": {
+                const { status, owner, root, format } = args as {
+                    status?: TaskStatus;
+                    owner?: TaskOwner;
+                    root?: string;
+                    format: "text" | "json";
+                };
+
+                try {
+                    const all = await loadTasks();
+                    const tasks = filterTasks(all, { status, owner, root });
+                    if (format === "json") {
+                        return {
+                            content: [{
+                                type: "text",
+                                text: JSON.stringify({ tasks, ready: readyTasks(all).map(task => task.id) }, null, 2)
+                            }]
+                        };
+                    }
+                    return {
+                        content: [{
+                            type: "text",
+                            text: all.length === 0
+                                ? "No tasks tracked yet"
+                                : tasks.length > 0 ? formatTasks(tasks) : "No tasks match"
+                        }]
+                    };
+                } catch (error) {
+                    throw toMcpError(error);
+                }
+            }
+            case "task_update": {
+                const { id, ...changes } = args as TaskChanges & { id?: string };
+
+                try {
+                    const task = await updateTask(id, changes);
+                    await notifyTasksUpdated([task.id], id === undefined);
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `${id === undefined ? "Created" : "Updated"} task ${task.id}\n\n${formatTasks([task])}`
+                        }]
+                    };
+                } catch (error) {
+                    throw toMcpError(error);
+                }
+            }
+            case "task_delete": {
+                const { id } = args as { id: string };
+
+                try {
+                    const deleted = await deleteTask(id);
+                    await notifyTasksUpdated(deleted, true);
+                    return {
+                        content: [{
+                            type: "text",
+                            text: `Deleted task${deleted.length === 1 ? "" : "s"} ${deleted.join(", ")}`
+                        }]
+                    };
+                } catch (error) {
+                    throw toMcpError(error);
+                }
+            }
+            case "task_import": {
+                const { text, parent } = args as { text: string; parent?: string };
+
+                try {
+                    const plan = parsePlannerResponseText(text);
+                    if (!plan || plan.next_steps.length === 0) {
+                        throw plannerError("invalid_request", "No Next Steps found. The text must follow the [PLANNER RESPONSE] format");
+                    }
+                    const created = await importReplyTasks(plan, parent);
+                    return {
+                        content: [{
+                            type: "text",
+                            text: created.length > 0
+                                ? `Added ${created.length} task${created.length === 1 ? "" : "s"}\n\n${formatTasks(created)}`
+                                : "Every step is already tracked"
+                        }]
+                    };
+                } catch (error) {
+                    throw toMcpError(error);
+                }
+            }
+            default:
+                throw new McpError(
+                    ErrorCode.MethodNotFound,
+                    `Unknown tool: ${request.params.name}`
+                );
         }
-        default:
-            throw new McpError(
-                ErrorCode.MethodNotFound,
-                `Unknown tool: ${request.params.name}`
-            );
+    });
+
+    connectedServers.set(server, subscriptions);
+    server.onclose = () => {
+        connectedServers.delete(server);
+    };
+    return server;
+}
+
+// Transport is chosen on the command line: stdio by default, or HTTP/SSE with
+// --transport http [--host 127.0.0.1] [--port 3000]
+const USAGE = "Usage: mcp-openai-planner [--transport stdio|http] [--host 127.0.0.1] [--port 3000]";
+
+// A bad command line; reported with the usage line
+class UsageError extends Error {
+    constructor(message: string) {
+        super(`${message}\n${USAGE}`);
+        this.name = "UsageError";
     }
-});
+}
+
+function parseCliOptions() {
+    try {
+        return parseArgs({
+            options: {
+                transport: { type: "string", default: "stdio" },
+                host: { type: "string", default: "127.0.0.1" },
+                port: { type: "string", default: "3000" }
+            }
+        }).values;
+    } catch (error) {
+        throw new UsageError((error as Error).message);
+    }
+}
 
-// Initialize MCP server connection using stdio transport
-const transport = new StdioServerTransport();
-server.connect(transport).catch((error) => {
-    console.error("Failed to start server:", error);
+async function main(): Promise<void> {
+    const cliOptions = parseCliOptions();
+
+    // Fail now on a broken config file or a malformed budget rather than on the first tool call
+    getTools();
+    getBudgets();
+
+    if (cliOptions.transport === "stdio") {
+        await createServer().connect(new StdioServerTransport());
+        return;
+    }
+    if (cliOptions.transport !== "http") {
+        throw new UsageError(`Invalid transport: ${cliOptions.transport}. Must be one of: stdio, http`);
+    }
+
+    const port = Number(cliOptions.port);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new UsageError(`Invalid port: ${cliOptions.port}`);
+    }
+    const token = process.env.PLANNER_HTTP_TOKEN || undefined;
+    await startHttpTransport(createServer, { host: cliOptions.host!, port, token });
+    console.error(`MCP server listening on http://${cliOptions.host}:${port}/sse${token ? " (bearer token required)" : ""}`);
+}
+
+main().catch((error) => {
+    // Startup failures are configuration mistakes (command line, config file, budgets), so the message
+    // is enough; a stack trace would bury it
+    console.error("Failed to start server:", error instanceof Error ? error.message : error);
     process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,135 @@
+import type {
+    ChatCompletion,
+    ChatCompletionCreateParamsNonStreaming,
+    ChatCompletionMessageToolCall,
+} from "openai/resources/chat/completions";
+import { ModelConfig, ProviderConfig, estimateTokens } from "./models.js";
+import { readCachedCompletion } from "./cache.js";
+import { messageText } from "./types.js";
+
+// A canned reply served by the mock provider when the last user message contains `match`
+// (or for every request when `match` is omitted)
+export interface MockResponse {
+    match?: string;
+    content: string;
+}
+
+const MOCK_PLAN = {
+    analysis: "Mock planner: no model was called. This reply is canned so workflows can run offline.",
+    decision: "Proceed with the request as described.",
+    next_steps: [
+        { index: 1, instruction: "Implement the smallest change that satisfies the request." },
+        { index: 2, instruction: "Run the tests and report the results back to the planner." }
+    ],
+    considerations: "Replace the mock provider with a real one to get actual planning."
+};
+
+// The numbered success criteria of a [REVIEW REQUEST]
+function reviewCriteria(request: string): string[] {
+    const list = (request.split("Success criteria:\n")[1] ?? "").split("\n\n")[0];
+    return list.split("\n").map(line => /^\d+\. (.*)$/.exec(line)?.[1]).filter((line): line is string => !!line);
+}
+
+function cannedContent(provider: ProviderConfig, params: ChatCompletionCreateParamsNonStreaming): string {
+    const lastUser = messageText([...params.messages].reverse().find(message => message.role === "user"));
+
+    const configured = (provider.responses ?? []).find(response => !response.match || lastUser.includes(response.match));
+    if (configured) {
+        return configured.content;
+    }
+
+    const format = params.response_format as { type: string; json_schema?: { name?: string } } | undefined;
+    if (format?.type === "json_schema" && format.json_schema?.name === "planner_response") {
+        return JSON.stringify(MOCK_PLAN);
+    }
+    if (format?.type === "json_schema" && format.json_schema?.name === "consensus_judgement") {
+        return JSON.stringify({
+            agreements: ["Mock judge: the drafts were not actually compared."],
+            disagreements: [],
+            merged: MOCK_PLAN
+        });
+    }
+    if (format?.type === "json_schema" && format.json_schema?.name === "review_verdict") {
+        return JSON.stringify({
+            criteria: reviewCriteria(lastUser).map(criterion => ({
+                criterion,
+                verdict: "pass",
+                reasons: "Mock reviewer: the evidence was not actually checked.",
+                follow_ups: []
+            })),
+            summary: "Mock reviewer: every criterion passes without a real review."
+        });
+    }
+    if (lastUser.includes("[REVIEW REQUEST]")) {
+        return [
+            "[REVIEW VERDICT]",
+            "Criteria:",
+            ...reviewCriteria(lastUser).flatMap((criterion, i) => [
+                `${i + 1}. PASS: ${criterion}`,
+                "   Reasons: Mock reviewer: the evidence was not actually checked."
+            ]),
+            "Summary: Mock reviewer: every criterion passes without a real review."
+        ].join("\n");
+    }
+    if (params.messages.some(message => messageText(message).includes("[EXECUTOR REQUEST]"))) {
+        return [
+            "[PLANNER RESPONSE]",
+            `Analysis: ${MOCK_PLAN.analysis}`,
+            `Decision: ${MOCK_PLAN.decision}`,
+            "Next Steps:",
+            ...MOCK_PLAN.next_steps.map(step => `${step.index}. ${step.instruction}`),
+            `Considerations: ${MOCK_PLAN.considerations}`
+        ].join("\n");
+    }
+    return `[mock ${params.model}] ${lastUser.slice(0, 500)}`;
+}
+
+// Offline stand-in for a provider: serves a recorded reply for the exact request when the cache has
+// one, otherwise a canned reply. Needs no API key and makes no network calls.
+export async function mockChatCompletion(
+    model: ModelConfig,
+    provider: ProviderConfig,
+    params: ChatCompletionCreateParamsNonStreaming
+): Promise<ChatCompletion> {
+    const recorded = await readCachedCompletion(model, params);
+    if (recorded) {
+        return recorded;
+    }
+
+    // In agent mode, look around once before answering so the function-calling loop gets exercised
+    if (params.tools?.length && params.tool_choice !== "none" && !params.messages.some(message => message.role === "tool")) {
+        return mockCompletion(model, params, "", [
+            { id: `mock-call-${Date.now()}`, type: "function", function: { name: "list_dir", arguments: JSON.stringify({ path: "." }) } }
+        ]);
+    }
+    return mockCompletion(model, params, cannedContent(provider, params));
+}
+
+function mockCompletion(
+    model: ModelConfig,
+    params: ChatCompletionCreateParamsNonStreaming,
+    content: string,
+    toolCalls?: ChatCompletionMessageToolCall[]
+): ChatCompletion {
+    const promptTokens = estimateTokens(params.messages.map(messageText).join("\n"), model);
+    const completionTokens = estimateTokens(content, model);
+    return {
+        id: `mock-${Date.now()}`,
+        object: "chat.completion",
+        created: Math.floor(Date.now() / 1000),
+        model: params.model,
+        choices: [{
+            index: 0,
+            finish_reason: toolCalls ? "tool_calls" : "stop",
+            logprobs: null,
+            message: toolCalls
+                ? { role: "assistant", content: null, refusal: null, tool_calls: toolCalls }
+                : { role: "assistant", content, refusal: null }
+        }],
+        usage: {
+            prompt_tokens: promptTokens,
+            completion_tokens: completionTokens,
+            total_tokens: promptTokens + completionTokens
+        }
+    };
+}
@@ -0,0 +1,246 @@
+import { loadConfigFile } from "./config.js";
+import { plannerError } from "./errors.js";
+import type { MockResponse } from "./mock.js";
+
+export type ProviderType = "openai" | "azure" | "openai-compatible" | "mock";
+
+export interface ProviderConfig {
+    type: ProviderType;
+    // Base URL of the API (OpenAI-compatible servers such as vLLM or Ollama, or an OpenAI proxy)
+    base_url?: string;
+    // Azure resource endpoint, e.g. https://example-resource.openai.azure.com/
+    endpoint?: string;
+    // Azure API version
+    api_version?: string;
+    // Literal API key. Prefer api_key_env so keys stay out of config files.
+    api_key?: string;
+    // Environment variable holding the API key
+    api_key_env?: string;
+    // Canned replies for the mock provider
+    responses?: MockResponse[];
+}
+
+export interface ModelCapabilities {
+    // Accepts the reasoning_effort parameter
+    reasoning_effort: boolean;
+    // Accepts developer/system messages (o1-mini and o1-preview only take user and assistant turns)
+    developer_role: boolean;
+    // Accepts a temperature other than the default
+    temperature: boolean;
+    // Name of the parameter capping output tokens
+    max_tokens_param: "max_tokens" | "max_completion_tokens";
+    // Accepts response_format: { type: "json_schema" }
+    structured_output: boolean;
+    // Accepts stream: true
+    streaming: boolean;
+    // Accepts tools (function calling)
+    function_calling: boolean;
+}
+
+export type ModelRole = "chat" | "plan";
+
+// USD per million tokens, used for the usage ledger's cost estimates
+export interface ModelPricing {
+    input_per_1m: number;
+    cached_input_per_1m?: number;
+    output_per_1m: number;
+}
+
+export interface ModelConfig {
+    id: string;
+    provider: string;
+    // Model name sent to the provider (Azure deployment name, local model tag, ...). Defaults to id.
+    api_model?: string;
+    // Other names the model can be requested by
+    aliases?: string[];
+    // Which tools offer the model
+    roles: ModelRole[];
+    capabilities: ModelCapabilities;
+    // Output token cap applied when the tool call doesn't set one
+    max_tokens?: number;
+    // Omitted for models without a known price (local models); their calls are logged at $0
+    pricing?: ModelPricing;
+    // Average characters per token, used to estimate token counts without a tokenizer (default 4)
+    chars_per_token?: number;
+}
+
+export interface ModelRegistry {
+    providers: Record<string, ProviderConfig>;
+    models: ModelConfig[];
+    default_chat_model: string;
+    default_plan_model: string;
+}
+
+// Shape of the "providers"/"models" keys of the config file. Models listed there are merged
+// over the built-in models by id, so an entry only needs the fields it changes.
+interface RegistryConfigSection {
+    providers?: Record<string, ProviderConfig>;
+    models?: Array<Partial<ModelConfig> & { id: string; capabilities?: Partial<ModelCapabilities> }>;
+    default_chat_model?: string;
+    default_plan_model?: string;
+}
+
+const CHAT_CAPABILITIES: ModelCapabilities = {
+    reasoning_effort: false,
+    developer_role: true,
+    temperature: true,
+    max_tokens_param: "max_tokens",
+    structured_output: true,
+    streaming: true,
+    function_calling: true
+};
+
+const REASONING_CAPABILITIES: ModelCapabilities = {
+    reasoning_effort: true,
+    developer_role: true,
+    temperature: false,
+    max_tokens_param: "max_completion_tokens",
+    structured_output: true,
+    streaming: true,
+    function_calling: true
+};
+
+const LEGACY_REASONING_CAPABILITIES: ModelCapabilities = {
+    reasoning_effort: false,
+    developer_role: false,
+    temperature: false,
+    max_tokens_param: "max_completion_tokens",
+    structured_output: false,
+    streaming: true,
+    function_calling: false
+};
+
+const BUILTIN_REGISTRY: ModelRegistry = {
+    providers: {
+        openai: { type: "openai", api_key_env: "OPENAI_API_KEY" },
+        mock: { type: "mock" }
+    },
+    models: [
+        {
+            id: "gpt-4o", provider: "openai", roles: ["chat"], capabilities: CHAT_CAPABILITIES, max_tokens: 2000,
+            pricing: { input_per_1m: 2.5, cached_input_per_1m: 1.25, output_per_1m: 10 }
+        },
+        {
+            id: "gpt-4o-mini", provider: "openai", roles: ["chat"], capabilities: CHAT_CAPABILITIES, max_tokens: 2000,
+            pricing: { input_per_1m: 0.15, cached_input_per_1m: 0.075, output_per_1m: 0.6 }
+        },
+        {
+            id: "o1-preview", provider: "openai", roles: ["chat", "plan"], capabilities: LEGACY_REASONING_CAPABILITIES,
+            pricing: { input_per_1m: 15, cached_input_per_1m: 7.5, output_per_1m: 60 }
+        },
+        {
+            id: "o1-mini", provider: "openai", roles: ["chat", "plan"], capabilities: LEGACY_REASONING_CAPABILITIES,
+            pricing: { input_per_1m: 1.1, cached_input_per_1m: 0.55, output_per_1m: 4.4 }
+        },
+        {
+            id: "o1", provider: "openai", aliases: ["o1-2024-12-17"], roles: ["chat", "plan"], capabilities: REASONING_CAPABILITIES,
+            pricing: { input_per_1m: 15, cached_input_per_1m: 7.5, output_per_1m: 60 }
+        },
+        {
+            id: "o3-mini", provider: "openai", roles: ["chat", "plan"], capabilities: REASONING_CAPABILITIES,
+            pricing: { input_per_1m: 1.1, cached_input_per_1m: 0.55, output_per_1m: 4.4 }
+        }
+    ],
+    default_chat_model: "gpt-4o",
+    default_plan_model: "o1"
+};
+
+function buildRegistry(): ModelRegistry {
+    const section = loadConfigFile() as RegistryConfigSection;
+    const providers = { ...BUILTIN_REGISTRY.providers, ...section.providers };
+
+    const models = BUILTIN_REGISTRY.models.map(model => ({ ...model }));
+    for (const override of section.models ?? []) {
+        const index = models.findIndex(model => model.id === override.id);
+        const base = index >= 0 ? models[index] : undefined;
+        const merged: ModelConfig = {
+            ...base,
+            ...override,
+            provider: override.provider ?? base?.provider ?? "openai",
+            roles: override.roles ?? base?.roles ?? ["chat", "plan"],
+            capabilities: { ...(base?.capabilities ?? CHAT_CAPABILITIES), ...override.capabilities }
+        };
+        if (index >= 0) {
+            models[index] = merged;
+        } else {
+            models.push(merged);
+        }
+    }
+
+    // PLANNER_MOCK routes every model to the mock provider, so the server runs without keys or network
+    if (process.env.PLANNER_MOCK && process.env.PLANNER_MOCK !== "0") {
+        for (const model of models) {
+            model.provider = "mock";
+        }
+    }
+
+    const registry: ModelRegistry = {
+        providers,
+        models,
+        default_chat_model: section.default_chat_model ?? BUILTIN_REGISTRY.default_chat_model,
+        default_plan_model: section.default_plan_model ?? BUILTIN_REGISTRY.default_plan_model
+    };
+
+    // Catch config mistakes at startup rather than on the first tool call
+    for (const model of registry.models) {
+        if (!registry.providers[model.provider]) {
+            throw new Error(`Model ${model.id} refers to unknown provider: ${model.provider}`);
+        }
+    }
+    for (const [id, role] of [[registry.default_chat_model, "chat"], [registry.default_plan_model, "plan"]] as const) {
+        if (!registry.models.some(model => model.id === id && model.roles.includes(role))) {
+            throw new Error(`Default ${role} model ${id} is not a registered ${role} model`);
+        }
+    }
+    return registry;
+}
+
+let registry: ModelRegistry | undefined;
+
+export function getModelRegistry(): ModelRegistry {
+    registry ??= buildRegistry();
+    return registry;
+}
+
+// Model ids offered for a role, in registry order
+export function modelsForRole(role: ModelRole): string[] {
+    return getModelRegistry().models
+        .filter(model => model.roles.includes(role))
+        .map(model => model.id);
+}
+
+// Every name resolveModel accepts for a role (or for any role): model ids followed by their aliases
+export function modelNamesForRole(role?: ModelRole): string[] {
+    const models = getModelRegistry().models.filter(model => !role || model.roles.includes(role));
+    return [...models.map(model => model.id), ...models.flatMap(model => model.aliases ?? [])];
+}
+
+// Look up a model by id or alias, optionally requiring it to serve a role
+export function resolveModel(name: string, role?: ModelRole): ModelConfig {
+    const { models } = getModelRegistry();
+    const model = models.find(m => m.id === name) ?? models.find(m => m.aliases?.includes(name));
+    if (!model || (role && !model.roles.includes(role))) {
+        const available = role ? modelsForRole(role) : models.map(m => m.id);
+        throw plannerError("invalid_model", `Unsupported model${role === "plan" ? " for reasoning" : ""}: ${name}. Must be one of: ${available.join(", ")}`);
+    }
+    return model;
+}
+
+export function getProviderConfig(id: string): ProviderConfig {
+    const provider = getModelRegistry().providers[id];
+    if (!provider) {
+        throw new Error(`Unknown provider: ${id}`);
+    }
+    return provider;
+}
+
+const DEFAULT_CHARS_PER_TOKEN = 4;
+
+// Token estimate for budgeting, not an exact count: no tokenizer is run. OpenAI's tokenizers average
+// about 4 characters per token on English text and code (models with other tokenizers set
+// chars_per_token in the registry), while non-ASCII characters often take a token or more each, so
+// those are counted as one token apiece. Callers that must stay under a limit leave a margin.
+export function estimateTokens(text: string, model?: ModelConfig): number {
+    const nonAscii = text.length - text.replace(/[^\x00-\x7f]/g, "").length;
+    return Math.ceil((text.length - nonAscii) / (model?.chars_per_token ?? DEFAULT_CHARS_PER_TOKEN) + nonAscii);
+}
@@ -0,0 +1,135 @@
+// Typed form of the `[PLANNER RESPONSE]` block the planner template asks the planner to write
+export interface PlanStep {
+    index: number;
+    instruction: string;
+}
+
+export interface PlannerResponse {
+    analysis: string;
+    decision: string;
+    next_steps: PlanStep[];
+    considerations: string;
+}
+
+// JSON schema mirroring the `[PLANNER RESPONSE]` format, in the strict form structured outputs require.
+// Only sent to models whose registry entry has the structured_output capability.
+export const PLANNER_RESPONSE_FORMAT = {
+    type: "json_schema",
+    json_schema: {
+        name: "planner_response",
+        strict: true,
+        schema: {
+            type: "object",
+            properties: {
+                analysis: {
+                    type: "string",
+                    description: "Your assessment of the current situation"
+                },
+                decision: {
+                    type: "string",
+                    description: "Your decision about how to proceed"
+                },
+                next_steps: {
+                    type: "array",
+                    description: "Clear, actionable instructions for the Executor, in order",
+                    items: {
+                        type: "object",
+                        properties: {
+                            index: { type: "integer" },
+                            instruction: { type: "string" }
+                        },
+                        required: ["index", "instruction"],
+                        additionalProperties: false
+                    }
+                },
+                considerations: {
+                    type: "string",
+                    description: "Important factors the Executor should keep in mind"
+                }
+            },
+            required: ["analysis", "decision", "next_steps", "considerations"],
+            additionalProperties: false
+        }
+    }
+} as const;
+
+// Parse a JSON reply produced under PLANNER_RESPONSE_FORMAT
+export function parsePlannerResponseJson(json: string): PlannerResponse {
+    const value = JSON.parse(json) as Partial<PlannerResponse>;
+    if (typeof value.analysis !== "string" || typeof value.decision !== "string" || !Array.isArray(value.next_steps)) {
+        throw new Error("Planner reply does not match the planner_response schema");
+    }
+    return {
+        analysis: value.analysis,
+        decision: value.decision,
+        next_steps: value.next_steps.map((step, i) => ({
+            index: typeof step.index === "number" ? step.index : i + 1,
+            instruction: String(step.instruction ?? "")
+        })),
+        considerations: typeof value.considerations === "string" ? value.considerations : ""
+    };
+}
+
+const FIELD_PATTERN = /^\s*(?:[-*]\s*)?(?:#+\s*)?(?:\*\*|__)?\s*(analysis|decision|next steps|considerations)\s*(?::\s*(?:\*\*|__)?|(?:\*\*|__)\s*:)\s*(.*)$/i;
+const STEP_PATTERN = /^\s*(\d+)[.)]\s+(.*)$/;
+const BULLET_PATTERN = /^\s*[-*]\s+(.*)$/;
+
+// Parse the text form of a `[PLANNER RESPONSE]` block. Returns undefined when the reply does not
+// follow the format closely enough to recover an analysis, a decision or any steps.
+export function parsePlannerResponseText(text: string): PlannerResponse | undefined {
+    const markerIndex = text.indexOf("[PLANNER RESPONSE]");
+    const body = (markerIndex >= 0 ? text.slice(markerIndex + "[PLANNER RESPONSE]".length) : text)
+        .replace(/```[a-z]*\n?/gi, "");
+
+    const fields: Record<string, string[]> = {};
+    let current: string | undefined;
+    for (const line of body.split("\n")) {
+        const match = FIELD_PATTERN.exec(line);
+        if (match) {
+            current = match[1].toLowerCase();
+            fields[current] = match[2] ? [match[2]] : [];
+        } else if (current) {
+            fields[current].push(line);
+        }
+    }
+
+    const next_steps: PlanStep[] = [];
+    for (const line of fields["next steps"] ?? []) {
+        const numbered = STEP_PATTERN.exec(line);
+        const bullet = numbered ? undefined : BULLET_PATTERN.exec(line);
+        if (numbered) {
+            next_steps.push({ index: Number(numbered[1]), instruction: numbered[2].trim() });
+        } else if (bullet) {
+            next_steps.push({ index: next_steps.length + 1, instruction: bullet[1].trim() });
+        } else if (line.trim() && next_steps.length > 0) {
+            // Continuation line of a multi-line step
+            const last = next_steps[next_steps.length - 1];
+            last.instruction = `${last.instruction}\n${line.trim()}`;
+        }
+    }
+
+    const join = (key: string) => (fields[key] ?? []).join("\n").trim();
+    const plan: PlannerResponse = {
+        analysis: join("analysis"),
+        decision: join("decision"),
+        next_steps,
+        considerations: join("considerations")
+    };
+
+    if (!plan.analysis && !plan.decision && plan.next_steps.length === 0) {
+        return undefined;
+    }
+    return plan;
+}
+
+// Render a plan back to the `[PLANNER RESPONSE]` text format
+export function formatPlannerResponse(plan: PlannerResponse): string {
+    return [
+        "[PLANNER RESPONSE]",
+        `Analysis: ${plan.analysis}`,
+        `Decision: ${plan.decision}`,
+        "Next Steps:",
+        ...plan.next_steps.map(step => `${step.index}. ${step.instruction.replace(/\n/g, "\n   ")}`),
+        `Considerations: ${plan.considerations}`
+    ].join("\n");
+}
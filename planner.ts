@@ -0,0 +1,256 @@
+import type {
+    ChatCompletionCreateParamsNonStreaming,
+    ChatCompletionMessageParam,
+    ChatCompletionContentPartText,
+    ChatCompletionDeveloperMessageParam,
+    ChatCompletionSystemMessageParam,
+    ChatCompletionUserMessageParam,
+    ChatCompletionAssistantMessageParam,
+} from "openai/resources/chat/completions";
+import { ModelConfig } from "./models.js";
+import { apiModelName } from "./providers.js";
+import { formatScratchpad, loadScratchpad } from "./scratchpad.js";
+import { loadSession } from "./sessions.js";
+import { formatTaskState, loadTasks } from "./tasks.js";
+import { renderTemplate } from "./templates.js";
+import { PlanMessage, messageText } from "./types.js";
+import { WorkspaceRequest, buildWorkspaceContext } from "./workspace.js";
+
+// Define reasoning effort levels
+export const REASONING_EFFORT_LEVELS = ["low", "medium", "high"] as const;
+export const DEFAULT_REASONING_EFFORT = "low" as const;
+export type ReasoningEffortLevel = typeof REASONING_EFFORT_LEVELS[number];
+
+function textPart(text: string): ChatCompletionContentPartText {
+    return { type: "text", text };
+}
+
+// What the Executor tells the Planner about its current request
+export interface ExecutorRequestFields {
+    task?: string;
+    status?: string;
+    blockers?: string;
+    question?: string;
+}
+
+const EXECUTOR_REQUEST_MARKER = "[EXECUTOR REQUEST]";
+
+// Wrap an Executor message as an [EXECUTOR REQUEST] for the planner. Omitted fields use the template defaults.
+export async function formatExecutorRequest(fields: ExecutorRequestFields): Promise<string> {
+    return renderTemplate("executor_request", {
+        ...fields,
+        question: fields.question?.replace(/@o1/g, '').replace(/@planner/g, '').trim()
+    });
+}
+
+// Apply explicit request fields to the Executor's current request: with a question they form a new
+// user turn, otherwise they describe the latest user message. The rendered request replaces the
+// message, so it is sent (and saved to sessions) as is.
+export async function applyExecutorRequest(messages: PlanMessage[], fields: ExecutorRequestFields): Promise<PlanMessage[]> {
+    if (fields.question !== undefined) {
+        return [...messages, { role: 'user', content: await formatExecutorRequest(fields) }];
+    }
+    if (fields.task === undefined && fields.status === undefined && fields.blockers === undefined) {
+        return messages;
+    }
+
+    const lastUserIndex = messages.map(msg => msg.role).lastIndexOf('user');
+    const updated = [...messages];
+    updated[lastUserIndex] = {
+        role: 'user',
+        content: await formatExecutorRequest({ ...fields, question: messageText(messages[lastUserIndex]) })
+    };
+    return updated;
+}
+
+// Requests that were already rendered (e.g. by applyExecutorRequest, then saved to a session) are not wrapped again
+async function wrapExecutorRequest(text: string): Promise<string> {
+    return text.trimStart().startsWith(EXECUTOR_REQUEST_MARKER) ? text : formatExecutorRequest({ question: text });
+}
+
+// Convert openai_plan messages to OpenAI's format. User messages always come from the Executor
+// and assistant messages from the Planner, so they are wrapped in the executor request and
+// planner templates; developer messages are replaced by the coordinator instructions.
+export async function buildPlannerMessages(rawMessages: PlanMessage[]): Promise<ChatCompletionMessageParam[]> {
+    const coordinatorContent = [textPart(await renderTemplate("coordinator"))];
+    const plannerContent = [textPart(await renderTemplate("planner"))];
+
+    return Promise.all(rawMessages.map(async (msg): Promise<ChatCompletionMessageParam> => {
+        // Handle different content formats
+        if (msg.role === 'developer') {
+            // Special case: always use the coordinator instructions for developer role
+            return { role: 'developer', content: coordinatorContent } as ChatCompletionDeveloperMessageParam;
+        } else if (typeof msg.content === 'string') {
+            // Simple string content
+            if (msg.role === 'system') {
+                return { role: 'system', content: msg.content } as ChatCompletionSystemMessageParam;
+            } else if (msg.role === 'user') {
+                // When user sends a message to openai_plan, they're always acting as an executor
+                // seeking guidance from the planner (o1)
+                return { role: 'user', content: await wrapExecutorRequest(msg.content) } as ChatCompletionUserMessageParam;
+            } else if (msg.role === 'assistant') {
+                // When assistant responds in openai_plan, it's always as the planner
+                return {
+                    role: 'assistant',
+                    content: [...plannerContent, textPart(msg.content)]
+                } as ChatCompletionAssistantMessageParam;
+            }
+        } else if (Array.isArray(msg.content)) {
+            // Array of content parts
+            const contentParts = msg.content.map(part => textPart(part.text));
+
+            if (msg.role === 'user') {
+                // All user messages to openai_plan are from executor to planner
+                const firstPartText = msg.content[0]?.text ?? '';
+                contentParts[0] = textPart(await wrapExecutorRequest(firstPartText));
+                return { role: 'user', content: contentParts } as ChatCompletionUserMessageParam;
+            } else if (msg.role === 'assistant') {
+                // All assistant responses in openai_plan are from planner to executor
+                return {
+                    role: 'assistant',
+                    content: [...plannerContent, ...contentParts]
+                } as ChatCompletionAssistantMessageParam;
+            }
+        }
+
+        // Default fallback - shouldn't reach here with proper validation
+        return { role: 'user', content: typeof msg.content === 'string' ? msg.content : 'Invalid content format' } as ChatCompletionUserMessageParam;
+    }));
+}
+
+// Everything that goes into one planner call apart from the model
+export interface PlanRequest {
+    messages: PlanMessage[];
+    fields: ExecutorRequestFields;
+    session_id?: string;
+    include_scratchpad?: boolean;
+    // Attach the tracked tasks, if there are any
+    include_tasks?: boolean;
+    workspace?: WorkspaceRequest;
+    // Tell the planner it may call the read-only agent functions
+    agent?: boolean;
+    // Model whose token counts the workspace context is budgeted in
+    model: ModelConfig;
+}
+
+export interface PlanConversation {
+    // Converted messages, ready for planCompletionParams
+    messages: ChatCompletionMessageParam[];
+    // The new user/assistant turns of this request, to be saved to the session with the reply
+    turns: PlanMessage[];
+}
+
+// Build the conversation for an openai_plan request: the explicit request fields become the Executor's
+// current request, the session's earlier turns are replayed, and the scratchpad and workspace files
+// are attached if asked for
+export async function buildPlanConversation(request: PlanRequest): Promise<PlanConversation> {
+    const requestMessages = await applyExecutorRequest(request.messages, request.fields);
+
+    // Resume the session: system/developer messages stay first, then earlier turns, then the new turns
+    const turns = requestMessages.filter(msg => msg.role === 'user' || msg.role === 'assistant');
+    let rawMessages = requestMessages;
+    if (request.session_id) {
+        const session = await loadSession(request.session_id);
+        if (session) {
+            rawMessages = [
+                ...requestMessages.filter(msg => msg.role === 'system' || msg.role === 'developer'),
+                ...session.messages.map(({ role, content }) => ({ role, content })),
+                ...turns
+            ];
+        }
+    }
+
+    // Convert messages to OpenAI's expected format
+    const messages = await buildPlannerMessages(rawMessages);
+
+    // Agent-mode instructions follow the coordinator instructions
+    if (request.agent) {
+        const firstTurnIndex = messages.findIndex(msg => msg.role !== 'system' && msg.role !== 'developer');
+        messages.splice(firstTurnIndex >= 0 ? firstTurnIndex : messages.length, 0, { role: 'developer', content: await renderTemplate("agent_mode") });
+    }
+
+    // Attach the current scratchpad right before the executor's latest request
+    if (request.include_scratchpad) {
+        const scratchpad = await loadScratchpad();
+        if (scratchpad.exists && scratchpad.sections.length > 0) {
+            const lastUserIndex = messages.map(msg => msg.role).lastIndexOf('user');
+            const scratchpadMessage: ChatCompletionUserMessageParam = {
+                role: 'user',
+                content: `[MULTI-AGENT SCRATCHPAD]\nCurrent contents of the Multi-Agent Scratchpad in ${scratchpad.path}:\n\n${formatScratchpad(scratchpad)}`
+            };
+            messages.splice(lastUserIndex >= 0 ? lastUserIndex : messages.length, 0, scratchpadMessage);
+        }
+    }
+
+    // Attach the task tracker's state so the planner can tell what is done and what is next
+    if (request.include_tasks) {
+        const tasks = await loadTasks();
+        if (tasks.length > 0) {
+            const lastUserIndex = messages.map(msg => msg.role).lastIndexOf('user');
+            messages.splice(lastUserIndex >= 0 ? lastUserIndex : messages.length, 0, { role: 'user', content: formatTaskState(tasks) });
+        }
+    }
+
+    // Attach the requested workspace files, packed into the token budget, right before the executor's latest request
+    if (request.workspace) {
+        const context = await buildWorkspaceContext(request.workspace, request.model);
+        if (context) {
+            const lastUserIndex = messages.map(msg => msg.role).lastIndexOf('user');
+            messages.splice(lastUserIndex >= 0 ? lastUserIndex : messages.length, 0, { role: 'user', content: context.text });
+        }
+    }
+
+    return { messages, turns };
+}
+
+// Models without developer-role support (o1-mini, o1-preview) reject system and developer messages,
+// so their instructions are sent as user turns instead
+export function adaptMessagesToModel(messages: ChatCompletionMessageParam[], model: ModelConfig): ChatCompletionMessageParam[] {
+    if (model.capabilities.developer_role) {
+        return messages;
+    }
+    return messages.map(msg => msg.role === 'system' || msg.role === 'developer'
+        ? { role: 'user', content: msg.content } as ChatCompletionUserMessageParam
+        : msg);
+}
+
+// Options for a chat completion request. Each is sent only when the model accepts it.
+export interface CompletionParamOptions {
+    reasoning_effort?: ReasoningEffortLevel;
+    response_format?: ChatCompletionCreateParamsNonStreaming["response_format"];
+    temperature?: number;
+}
+
+// Request parameters for a chat completion, sending only the options the model accepts
+export function completionParams(
+    model: ModelConfig,
+    messages: ChatCompletionMessageParam[],
+    options: CompletionParamOptions = {}
+): ChatCompletionCreateParamsNonStreaming {
+    const params: ChatCompletionCreateParamsNonStreaming = {
+        messages: adaptMessagesToModel(messages, model),
+        model: apiModelName(model)
+    };
+    if (options.response_format) {
+        params.response_format = options.response_format;
+    }
+    if (options.reasoning_effort && model.capabilities.reasoning_effort) {
+        params.reasoning_effort = options.reasoning_effort;
+    }
+    if (options.temperature !== undefined && model.capabilities.temperature) {
+        params.temperature = options.temperature;
+    }
+    if (model.max_tokens) {
+        params[model.capabilities.max_tokens_param] = model.max_tokens;
+    }
+    return params;
+}
+
+// Request parameters for a planner call: a plain text reply unless another response format is given
+export function planCompletionParams(
+    model: ModelConfig,
+    messages: ChatCompletionMessageParam[],
+    options: Omit<CompletionParamOptions, "temperature"> = {}
+): ChatCompletionCreateParamsNonStreaming {
+    return completionParams(model, messages, { ...options, response_format: options.response_format ?? { type: "text" } });
+}
@@ -0,0 +1,32 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { ProgressToken } from "@modelcontextprotocol/sdk/types.js";
+import type { CompletionProgress } from "./completion.js";
+
+// Build an onProgress callback that forwards completion progress to the MCP client as
+// notifications/progress. Returns undefined when the client didn't ask for progress.
+export function progressNotifier(
+    server: Server,
+    progressToken: ProgressToken | undefined,
+    label: string
+): ((progress: CompletionProgress) => void) | undefined {
+    if (progressToken === undefined) {
+        return undefined;
+    }
+
+    return ({ elapsed_ms, tokens_received }) => {
+        const seconds = Math.round(elapsed_ms / 1000);
+        server.notification({
+            method: "notifications/progress",
+            params: {
+                progressToken,
+                // Elapsed time always increases, even while a reasoning model is still thinking
+                progress: elapsed_ms / 1000,
+                elapsed_ms,
+                tokens_received,
+                message: tokens_received > 0
+                    ? `${label}: received ${tokens_received} tokens after ${seconds}s`
+                    : `${label}: waiting for the model (${seconds}s elapsed)`
+            }
+        }).catch(() => undefined);
+    };
+}
@@ -0,0 +1,83 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import { getProviderConfig, ModelConfig, ProviderConfig } from "./models.js";
+import { plannerError } from "./errors.js";
+
+const DEFAULT_API_KEY_ENV: Record<ProviderConfig["type"], string | undefined> = {
+    "openai": "OPENAI_API_KEY",
+    "azure": "AZURE_OPENAI_API_KEY",
+    // Local servers usually don't check keys
+    "openai-compatible": undefined,
+    "mock": undefined
+};
+
+const clients = new Map<string, OpenAI>();
+
+function resolveApiKey(id: string, provider: ProviderConfig): string | undefined {
+    if (provider.api_key) {
+        return provider.api_key;
+    }
+    const envName = provider.api_key_env ?? DEFAULT_API_KEY_ENV[provider.type];
+    const apiKey = envName ? process.env[envName] : undefined;
+
+    if (!apiKey && provider.type === "openai") {
+        throw plannerError(
+            "authentication",
+            `${envName} environment variable is required for provider "${id}".\n` +
+            "Please create a .env file in the project root with your OpenAI API key:\n" +
+            `${envName}=your_api_key_here`
+        );
+    }
+    if (!apiKey && provider.type === "azure") {
+        throw plannerError("authentication", `${envName} environment variable is required for Azure provider "${id}"`);
+    }
+    return apiKey;
+}
+
+// Retries and timeouts are owned by the request layer, so the SDK's own are switched off
+const CLIENT_OPTIONS = { maxRetries: 0, timeout: 24 * 60 * 60 * 1000 };
+
+function createClient(id: string, provider: ProviderConfig): OpenAI {
+    const apiKey = resolveApiKey(id, provider);
+    switch (provider.type) {
+        case "openai":
+            return new OpenAI({ ...CLIENT_OPTIONS, apiKey, baseURL: provider.base_url });
+        case "azure":
+            return new AzureOpenAI({
+                ...CLIENT_OPTIONS,
+                apiKey,
+                endpoint: provider.endpoint,
+                baseURL: provider.base_url,
+                apiVersion: provider.api_version ?? "2024-12-01-preview"
+            });
+        case "openai-compatible":
+            if (!provider.base_url) {
+                throw new Error(`Provider "${id}" needs a base_url`);
+            }
+            // The SDK insists on a key even when the server ignores it
+            return new OpenAI({ ...CLIENT_OPTIONS, apiKey: apiKey ?? "not-needed", baseURL: provider.base_url });
+        case "mock":
+            // Served by mockChatCompletion without any client
+            throw new Error(`Provider "${id}" is a mock provider and has no API client`);
+        default:
+            throw new Error(`Unsupported provider type for "${id}": ${(provider as ProviderConfig).type}`);
+    }
+}
+
+// Get (and lazily create) the client for a provider, so providers that are never used don't need credentials
+export function getClient(providerId: string): OpenAI {
+    let client = clients.get(providerId);
+    if (!client) {
+        client = createClient(providerId, getProviderConfig(providerId));
+        clients.set(providerId, client);
+    }
+    return client;
+}
+
+export function getClientForModel(model: ModelConfig): OpenAI {
+    return getClient(model.provider);
+}
+
+// Model name to send to the provider
+export function apiModelName(model: ModelConfig): string {
+    return model.api_model ?? model.id;
+}
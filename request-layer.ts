@@ -0,0 +1,200 @@
+import { APIError } from "openai";
+import { loadConfigFile } from "./config.js";
+import { classifyError, isRetryable, RequestTimeoutError } from "./errors.js";
+
+export interface RequestSettings {
+    // Time limit for one attempt, including streaming the whole reply
+    timeout_ms: number;
+    // Retries after the first attempt for rate limits, timeouts and 5xx errors
+    max_retries: number;
+    // Base delay for exponential backoff when the provider sends no Retry-After
+    backoff_base_ms: number;
+    backoff_max_ms: number;
+    // Provider calls allowed in flight at once
+    max_concurrent: number;
+    // Provider calls allowed to start per minute (0 for no limit)
+    requests_per_minute: number;
+}
+
+const DEFAULT_REQUEST_SETTINGS: RequestSettings = {
+    // High reasoning_effort calls regularly take several minutes
+    timeout_ms: 10 * 60 * 1000,
+    max_retries: 3,
+    backoff_base_ms: 1000,
+    backoff_max_ms: 60 * 1000,
+    max_concurrent: 4,
+    requests_per_minute: 0
+};
+
+let settings: RequestSettings | undefined;
+
+export function getRequestSettings(): RequestSettings {
+    settings ??= {
+        ...DEFAULT_REQUEST_SETTINGS,
+        ...(loadConfigFile() as { requests?: Partial<RequestSettings> }).requests
+    };
+    return settings;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+// Concurrency cap plus a sliding one-minute window on request starts
+class RequestLimiter {
+    private active = 0;
+    private readonly waiting: Array<() => void> = [];
+    private readonly startTimes: number[] = [];
+
+    async acquire(signal?: AbortSignal): Promise<void> {
+        const { max_concurrent, requests_per_minute } = getRequestSettings();
+
+        while (this.active >= max_concurrent) {
+            await this.waitForSlot(signal);
+        }
+        this.active++;
+
+        try {
+            while (requests_per_minute > 0) {
+                const now = Date.now();
+                while (this.startTimes.length > 0 && now - this.startTimes[0] >= 60_000) {
+                    this.startTimes.shift();
+                }
+                if (this.startTimes.length < requests_per_minute) {
+                    break;
+                }
+                await sleep(60_000 - (now - this.startTimes[0]), signal);
+            }
+            this.startTimes.push(Date.now());
+        } catch (error) {
+            this.release();
+            throw error;
+        }
+    }
+
+    // Wait until release() wakes this caller. A cancelled caller leaves the queue, so it never takes a slot.
+    private waitForSlot(signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(signal.reason);
+                return;
+            }
+            const wake = () => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve();
+            };
+            const onAbort = () => {
+                const index = this.waiting.indexOf(wake);
+                if (index >= 0) {
+                    this.waiting.splice(index, 1);
+                }
+                reject(signal?.reason);
+            };
+            this.waiting.push(wake);
+            signal?.addEventListener("abort", onAbort, { once: true });
+        });
+    }
+
+    release(): void {
+        this.active--;
+        this.waiting.shift()?.();
+    }
+}
+
+const limiter = new RequestLimiter();
+
+// Delay requested by the provider, from retry-after-ms or Retry-After (seconds or an HTTP date)
+function retryAfterMs(error: unknown): number | undefined {
+    if (!(error instanceof APIError) || !error.headers) {
+        return undefined;
+    }
+    const ms = Number(error.headers["retry-after-ms"]);
+    if (error.headers["retry-after-ms"] && Number.isFinite(ms)) {
+        return ms;
+    }
+    const value = error.headers["retry-after"];
+    if (!value) {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return seconds * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoffMs(attempt: number, error: unknown): number {
+    const { backoff_base_ms, backoff_max_ms } = getRequestSettings();
+    const requested = retryAfterMs(error);
+    if (requested !== undefined) {
+        return Math.min(requested, backoff_max_ms);
+    }
+    // Full jitter keeps a burst of retrying calls from hitting the provider in lockstep
+    return Math.random() * Math.min(backoff_max_ms, backoff_base_ms * 2 ** attempt);
+}
+
+export interface RequestContext {
+    // Cancellation from the caller (e.g. the MCP client cancelling the tool call)
+    signal?: AbortSignal;
+}
+
+// Run a provider call through the shared limiter with a per-attempt timeout, retrying
+// rate limits, timeouts and provider outages with backoff. The call receives an AbortSignal
+// that fires on either timeout or cancellation.
+export async function runRequest<T>(call: (signal: AbortSignal) => Promise<T>, context: RequestContext = {}): Promise<T> {
+    const { timeout_ms, max_retries } = getRequestSettings();
+
+    for (let attempt = 0; ; attempt++) {
+        await limiter.acquire(context.signal);
+        // A call cancelled before it got a slot must not reach the provider; the abort listener
+        // below only sees cancellations that happen later
+        if (context.signal?.aborted) {
+            limiter.release();
+            throw context.signal.reason;
+        }
+
+        const controller = new AbortController();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeout_ms);
+        const onAbort = () => controller.abort(context.signal?.reason);
+        context.signal?.addEventListener("abort", onAbort, { once: true });
+
+        let delay = 0;
+        try {
+            return await call(controller.signal);
+        } catch (error) {
+            const failure = timedOut ? new RequestTimeoutError(timeout_ms) : error;
+            const kind = classifyError(failure);
+            if (!isRetryable(kind) || attempt >= max_retries || context.signal?.aborted) {
+                throw failure;
+            }
+            delay = backoffMs(attempt, failure);
+            console.error(`Request failed (${kind}), retrying in ${Math.round(delay)}ms (${attempt + 1}/${max_retries}): ${(failure as Error).message}`);
+        } finally {
+            clearTimeout(timer);
+            context.signal?.removeEventListener("abort", onAbort);
+            limiter.release();
+        }
+
+        // Back off without holding a limiter slot
+        await sleep(delay, context.signal);
+    }
+}
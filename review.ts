@@ -0,0 +1,283 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { createChatCompletion, CompletionOptions } from "./completion.js";
+import { ModelConfig } from "./models.js";
+import { ReasoningEffortLevel, planCompletionParams } from "./planner.js";
+import { renderTemplate } from "./templates.js";
+import { WorkspaceRequest, buildWorkspaceContext } from "./workspace.js";
+
+export type Verdict = "pass" | "fail";
+
+export interface CriterionVerdict {
+    criterion: string;
+    verdict: Verdict;
+    reasons: string;
+    follow_ups: string[];
+}
+
+export interface ReviewResult {
+    // Pass only when every criterion passes
+    verdict?: Verdict;
+    criteria: CriterionVerdict[];
+    summary: string;
+    model: string;
+    // Set when the reviewer's reply could not be read; the raw reply is returned instead
+    error?: string;
+    reply?: string;
+}
+
+// What the Executor hands in for review
+export interface ReviewEvidence {
+    test_output?: string;
+    diff?: string;
+    notes?: string;
+    workspace?: WorkspaceRequest;
+}
+
+export interface ReviewRequest extends ReviewEvidence {
+    // Task the criteria belong to, to give the reviewer some context
+    task?: string;
+    criteria: string[];
+    reasoning_effort?: ReasoningEffortLevel;
+}
+
+// Evidence longer than this is cut in the middle, keeping the start and the end (where test runners
+// print their summary)
+const MAX_EVIDENCE_CHARS = 60000;
+
+// Strict JSON schema for the reviewer's reply
+const REVIEW_VERDICT_FORMAT = {
+    type: "json_schema",
+    json_schema: {
+        name: "review_verdict",
+        strict: true,
+        schema: {
+            type: "object",
+            properties: {
+                criteria: {
+                    type: "array",
+                    description: "One verdict per success criterion, in the order given",
+                    items: {
+                        type: "object",
+                        properties: {
+                            criterion: { type: "string", description: "The criterion, as given" },
+                            verdict: { type: "string", enum: ["pass", "fail"] },
+                            reasons: { type: "string", description: "Why, citing the evidence" },
+                            follow_ups: {
+                                type: "array",
+                                description: "Actions the Executor must take; required for every failed criterion",
+                                items: { type: "string" }
+                            }
+                        },
+                        required: ["criterion", "verdict", "reasons", "follow_ups"],
+                        additionalProperties: false
+                    }
+                },
+                summary: {
+                    type: "string",
+                    description: "Overall assessment of the task"
+                }
+            },
+            required: ["criteria", "summary"],
+            additionalProperties: false
+        }
+    }
+} as const;
+
+interface ReviewerReply {
+    criteria: Array<Partial<CriterionVerdict>>;
+    summary: string;
+}
+
+function parseVerdictJson(json: string): ReviewerReply {
+    const value = JSON.parse(json) as { criteria?: unknown; summary?: unknown };
+    if (!Array.isArray(value.criteria)) {
+        throw new Error("Reviewer reply does not match the review_verdict schema");
+    }
+    return { criteria: value.criteria, summary: typeof value.summary === "string" ? value.summary : "" };
+}
+
+const CRITERION_PATTERN = /^\s*(\d+)[.)]\s*(?:\*\*)?(PASS|FAIL)\b(?:\*\*)?\s*[:\-–]?\s*(.*)$/i;
+const REASONS_PATTERN = /^\s*(?:\*\*)?Reasons?(?:\*\*)?\s*:\s*(.*)$/i;
+const FOLLOW_UPS_PATTERN = /^\s*(?:\*\*)?Follow[- ]?ups?(?:\*\*)?\s*:\s*(.*)$/i;
+const SUMMARY_PATTERN = /^\s*(?:\*\*)?Summary(?:\*\*)?\s*:\s*(.*)$/i;
+const BULLET_PATTERN = /^\s*[-*]\s+(.*)$/;
+
+// Parse the text format the reviewer template asks for. Returns undefined when no verdict line is found.
+function parseVerdictText(text: string): ReviewerReply | undefined {
+    const markerIndex = text.indexOf("[REVIEW VERDICT]");
+    const body = markerIndex >= 0 ? text.slice(markerIndex + "[REVIEW VERDICT]".length) : text;
+
+    const criteria: CriterionVerdict[] = [];
+    const summary: string[] = [];
+    let field: "reasons" | "follow_ups" | "summary" | undefined;
+    for (const line of body.split("\n")) {
+        const current = criteria[criteria.length - 1];
+        const criterion = CRITERION_PATTERN.exec(line);
+        const reasons = REASONS_PATTERN.exec(line);
+        const followUps = FOLLOW_UPS_PATTERN.exec(line);
+        const summaryLine = SUMMARY_PATTERN.exec(line);
+        const bullet = BULLET_PATTERN.exec(line);
+        if (criterion) {
+            criteria.push({ criterion: criterion[3].trim(), verdict: criterion[2].toLowerCase() as Verdict, reasons: "", follow_ups: [] });
+            field = undefined;
+        } else if (summaryLine) {
+            summary.push(summaryLine[1]);
+            field = "summary";
+        } else if (current && reasons) {
+            current.reasons = reasons[1].trim();
+            field = "reasons";
+        } else if (current && followUps) {
+            const inline = followUps[1].trim();
+            if (inline && !/^(none|n\/a|-)\.?$/i.test(inline)) {
+                current.follow_ups.push(inline);
+            }
+            field = "follow_ups";
+        } else if (field === "follow_ups" && current && bullet) {
+            if (!/^(none|n\/a)\.?$/i.test(bullet[1].trim())) {
+                current.follow_ups.push(bullet[1].trim());
+            }
+        } else if (field === "reasons" && current && line.trim()) {
+            current.reasons = `${current.reasons}\n${line.trim()}`.trim();
+        } else if (field === "summary") {
+            summary.push(line);
+        }
+    }
+
+    if (criteria.length === 0) {
+        return undefined;
+    }
+    return { criteria, summary: summary.join("\n").trim() };
+}
+
+function truncateEvidence(text: string): string {
+    if (text.length <= MAX_EVIDENCE_CHARS) {
+        return text;
+    }
+    const half = MAX_EVIDENCE_CHARS / 2;
+    return `${text.slice(0, half)}\n[... ${text.length - MAX_EVIDENCE_CHARS} characters truncated ...]\n${text.slice(-half)}`;
+}
+
+// The [REVIEW REQUEST] message: the criteria, numbered, then each piece of evidence
+async function buildReviewMessages(request: ReviewRequest, model: ModelConfig): Promise<ChatCompletionMessageParam[]> {
+    const sections = [
+        "[REVIEW REQUEST]",
+        ...(request.task ? [`Task: ${request.task}`] : []),
+        "Success criteria:",
+        ...request.criteria.map((criterion, i) => `${i + 1}. ${criterion}`)
+    ];
+    const evidence: Array<[string, string | undefined]> = [
+        ["Test output", request.test_output],
+        ["Diff", request.diff],
+        ["Executor's notes", request.notes]
+    ];
+    for (const [title, text] of evidence) {
+        if (text) {
+            sections.push("", `${title}:`, "```", truncateEvidence(text), "```");
+        }
+    }
+    if (!evidence.some(([, text]) => text) && !request.workspace) {
+        sections.push("", "The Executor provided no evidence.");
+    }
+
+    const messages: ChatCompletionMessageParam[] = [
+        { role: "developer", content: await renderTemplate("reviewer") }
+    ];
+    if (request.workspace) {
+        const context = await buildWorkspaceContext(request.workspace, model);
+        if (context) {
+            messages.push({ role: "user", content: context.text });
+        }
+    }
+    messages.push({ role: "user", content: sections.join("\n") });
+    return messages;
+}
+
+// Criterion text as compared between the request and the reply: case, spacing and markdown emphasis
+// often change when the reviewer repeats it
+function normalizeCriterion(text: unknown): string {
+    return String(text ?? "").replace(/[*_`]/g, "").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+// Line the reviewer's verdicts up with the criteria that were asked about: by the criterion text the
+// reviewer repeated, then by position for verdicts whose text doesn't match any criterion. A criterion
+// the reviewer skipped fails, so an incomplete review never reads as a pass.
+function alignVerdicts(criteria: string[], reply: ReviewerReply): CriterionVerdict[] {
+    const matched = new Map<number, Partial<CriterionVerdict>>();
+    const used = new Set<Partial<CriterionVerdict>>();
+    criteria.forEach((criterion, i) => {
+        const verdict = reply.criteria.find(item => !used.has(item) && normalizeCriterion(item.criterion) === normalizeCriterion(criterion));
+        if (verdict) {
+            matched.set(i, verdict);
+            used.add(verdict);
+        }
+    });
+    criteria.forEach((_, i) => {
+        const verdict = reply.criteria[i];
+        if (!matched.has(i) && verdict && !used.has(verdict)) {
+            matched.set(i, verdict);
+            used.add(verdict);
+        }
+    });
+
+    return criteria.map((criterion, i) => {
+        const verdict = matched.get(i);
+        if (!verdict) {
+            return { criterion, verdict: "fail", reasons: "The reviewer did not assess this criterion", follow_ups: ["Ask for the review again"] };
+        }
+        return {
+            criterion,
+            verdict: verdict.verdict === "pass" ? "pass" : "fail",
+            reasons: String(verdict.reasons ?? ""),
+            follow_ups: Array.isArray(verdict.follow_ups) ? verdict.follow_ups.map(String) : []
+        };
+    });
+}
+
+// Have a planning model grade the Executor's evidence against the success criteria. JSON-schema output
+// is used where the model supports it; otherwise, or if the JSON can't be read, the text reply is parsed.
+export async function runReview(model: ModelConfig, request: ReviewRequest, options: CompletionOptions): Promise<ReviewResult> {
+    const useJsonSchema = model.capabilities.structured_output;
+    const messages = await buildReviewMessages(request, model);
+    const completion = await createChatCompletion(model, planCompletionParams(model, messages, {
+        reasoning_effort: request.reasoning_effort,
+        response_format: useJsonSchema ? REVIEW_VERDICT_FORMAT : undefined
+    }), options);
+    const reply = completion.choices[0]?.message?.content;
+    if (!reply) {
+        return { criteria: [], summary: "", model: model.id, error: "No response received" };
+    }
+
+    let parsed: ReviewerReply | undefined;
+    if (useJsonSchema) {
+        try {
+            parsed = parseVerdictJson(reply);
+        } catch {
+            parsed = undefined;
+        }
+    }
+    parsed ??= parseVerdictText(reply);
+    if (!parsed) {
+        return { criteria: [], summary: "", model: model.id, error: "Reviewer reply does not contain a [REVIEW VERDICT]", reply };
+    }
+
+    const criteria = alignVerdicts(request.criteria, parsed);
+    return {
+        verdict: criteria.every(item => item.verdict === "pass") ? "pass" : "fail",
+        criteria,
+        summary: parsed.summary,
+        model: model.id
+    };
+}
+
+// Render a review as text, for the tool result
+export function formatReview(result: ReviewResult): string {
+    return [
+        `[REVIEW VERDICT] ${result.verdict?.toUpperCase() ?? "UNKNOWN"}`,
+        ...result.criteria.flatMap((item, i) => [
+            `${i + 1}. ${item.verdict.toUpperCase()}: ${item.criterion}`,
+            `   Reasons: ${item.reasons.replace(/\n/g, "\n   ")}`,
+            ...(item.follow_ups.length > 0 ? ["   Follow-ups:", ...item.follow_ups.map(action => `   - ${action}`)] : [])
+        ]),
+        `Summary: ${result.summary}`
+    ].join("\n");
+}
@@ -0,0 +1,199 @@
+import { promises as fs } from "fs";
+import { resolve } from "path";
+import { withFileLock, writeFileAtomic } from "./storage.js";
+
+// Section titles of the Multi-Agent Scratchpad, in the order DEFAULT_DEVELOPER_CONTENT lays them out.
+// Agents are told not to rename these, so tools only accept these exact titles.
+export const SCRATCHPAD_SECTIONS = [
+    "Background and Motivation",
+    "Key Challenges and Analysis",
+    "Core User Flow and Value Chain",
+    "Verifiable Success Criteria",
+    "High-level Task Breakdown",
+    "Current Status / Progress Tracking",
+    "Executor's Feedback or Assistance Requests",
+    "Next Steps and Action Items"
+] as const;
+export type ScratchpadSectionTitle = typeof SCRATCHPAD_SECTIONS[number];
+
+const SCRATCHPAD_HEADING = "# Multi-Agent Scratchpad";
+const SCRATCHPAD_URI_PREFIX = "scratchpad://";
+
+export interface ScratchpadSection {
+    title: string;
+    content: string;
+    // Line index of the `## title` heading
+    start: number;
+    // Line index one past the last line of the section body
+    end: number;
+}
+
+export interface Scratchpad {
+    path: string;
+    exists: boolean;
+    sections: ScratchpadSection[];
+}
+
+// Resolve the .cursorrules file the agents coordinate through
+export function getScratchpadPath(): string {
+    return resolve(process.cwd(), process.env.PLANNER_SCRATCHPAD_PATH || ".cursorrules");
+}
+
+async function readScratchpadFile(path: string): Promise<string | undefined> {
+    try {
+        return await fs.readFile(path, "utf8");
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+// Find the line range holding the scratchpad. The instructions block of .cursorrules repeats the section
+// headings as a format example, so the last `# Multi-Agent Scratchpad` heading wins when there is one.
+function findScratchpadScope(lines: string[]): { heading: number; start: number; end: number } {
+    let heading = -1;
+    lines.forEach((line, index) => {
+        if (line.trim() === SCRATCHPAD_HEADING) {
+            heading = index;
+        }
+    });
+
+    const start = heading + 1;
+    let end = lines.length;
+    if (heading >= 0) {
+        for (let i = start; i < lines.length; i++) {
+            if (/^#\s/.test(lines[i])) {
+                end = i;
+                break;
+            }
+        }
+    }
+    return { heading, start, end };
+}
+
+function parseSections(lines: string[]): ScratchpadSection[] {
+    const scope = findScratchpadScope(lines);
+    const sections: ScratchpadSection[] = [];
+
+    let current: ScratchpadSection | undefined;
+    for (let i = scope.start; i < scope.end; i++) {
+        if (!/^#{1,2}\s/.test(lines[i])) {
+            continue;
+        }
+        if (current) {
+            current.end = i;
+            current = undefined;
+        }
+        const match = /^##\s+(.+?)\s*$/.exec(lines[i]);
+        if (match) {
+            current = { title: match[1], content: "", start: i, end: scope.end };
+            sections.push(current);
+        }
+    }
+
+    // Without an explicit scratchpad heading the whole file is scanned, so keep only the last
+    // occurrence of each title to skip the format example in the instructions
+    const byTitle = new Map<string, ScratchpadSection>();
+    for (const section of sections) {
+        section.content = lines.slice(section.start + 1, section.end).join("\n").trim();
+        byTitle.set(section.title, section);
+    }
+    return [...byTitle.values()];
+}
+
+export function parseScratchpad(text: string, path = getScratchpadPath()): Scratchpad {
+    return { path, exists: true, sections: parseSections(text.split("\n")) };
+}
+
+export async function loadScratchpad(): Promise<Scratchpad> {
+    const path = getScratchpadPath();
+    const text = await readScratchpadFile(path);
+    if (text === undefined) {
+        return { path, exists: false, sections: [] };
+    }
+    return parseScratchpad(text, path);
+}
+
+export function findSection(scratchpad: Scratchpad, title: string): ScratchpadSection | undefined {
+    const wanted = title.trim().toLowerCase();
+    return scratchpad.sections.find(section => section.title.toLowerCase() === wanted);
+}
+
+// Render the scratchpad (or a subset of its sections) back to markdown for prompts and resources
+export function formatScratchpad(scratchpad: Scratchpad, titles?: string[]): string {
+    const sections = titles
+        ? titles.map(title => findSection(scratchpad, title)).filter((s): s is ScratchpadSection => !!s)
+        : scratchpad.sections;
+    return sections
+        .map(section => `## ${section.title}\n${section.content || "(empty)"}`)
+        .join("\n\n");
+}
+
+// Append text to the end of one section, leaving every other line of the file untouched.
+// Missing sections (or a missing scratchpad) are created at the end of the scratchpad. Appends run one
+// at a time, so concurrent appends all land, and the file is replaced atomically.
+export async function appendToScratchpadSection(title: ScratchpadSectionTitle, text: string): Promise<Scratchpad> {
+    const path = getScratchpadPath();
+    return withFileLock(path, async () => {
+        const original = (await readScratchpadFile(path)) ?? "";
+        const lines = original.length > 0 ? original.split("\n") : [];
+        const entry = text.trim().split("\n");
+
+        const section = findSection({ path, exists: true, sections: parseSections(lines) }, title);
+        if (section) {
+            // Insert after the last non-blank line of the section body
+            let insertAt = section.end;
+            while (insertAt > section.start + 1 && lines[insertAt - 1].trim() === "") {
+                insertAt--;
+            }
+            lines.splice(insertAt, 0, "", ...entry);
+        } else {
+            const scope = findScratchpadScope(lines);
+            const block = ["", `## ${title}`, ...entry];
+            if (scope.heading >= 0) {
+                let insertAt = scope.end;
+                while (insertAt > scope.start && lines[insertAt - 1].trim() === "") {
+                    insertAt--;
+                }
+                lines.splice(insertAt, 0, ...block);
+            } else {
+                while (lines.length > 0 && lines[lines.length - 1].trim() === "") {
+                    lines.pop();
+                }
+                if (lines.length > 0) {
+                    lines.push("");
+                }
+                lines.push(SCRATCHPAD_HEADING, ...block);
+            }
+        }
+
+        const updated = lines.join("\n");
+        // Write through a symlinked .cursorrules rather than replacing the link
+        const target = await fs.realpath(path).catch(() => path);
+        await writeFileAtomic(target, updated.endsWith("\n") ? updated : `${updated}\n`);
+        return parseScratchpad(updated, path);
+    });
+}
+
+export function slugifySectionTitle(title: string): string {
+    return title
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "");
+}
+
+export const SCRATCHPAD_ALL_URI = `${SCRATCHPAD_URI_PREFIX}all`;
+
+export function sectionUri(title: string): string {
+    return `${SCRATCHPAD_URI_PREFIX}section/${slugifySectionTitle(title)}`;
+}
+
+// Map a scratchpad:// URI back to a section title, or "all" for the whole scratchpad
+export function resolveScratchpadUri(uri: string): ScratchpadSectionTitle | "all" | undefined {
+    if (uri === SCRATCHPAD_ALL_URI) {
+        return "all";
+    }
+    return SCRATCHPAD_SECTIONS.find(title => sectionUri(title) === uri);
+}
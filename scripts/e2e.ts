@@ -0,0 +1,113 @@
+// Offline end-to-end check: start the server over stdio with the mock provider, call the planning
+// tools through the MCP client and check the replies. Needs no API key and no network.
+//
+//   pnpm test:e2e
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+
+type ToolResult = { content: Array<{ type: string; text?: string }>; isError?: boolean };
+
+const serverPath = fileURLToPath(new URL("../index.ts", import.meta.url));
+
+// Sessions, tasks, the scratchpad and the config all live in a scratch directory, so the check
+// neither reads nor changes the developer's own state
+const scratchDir = mkdtempSync(join(tmpdir(), "mcp-openai-planner-e2e-"));
+writeFileSync(join(scratchDir, "config.json"), "{}\n");
+
+const env: Record<string, string> = {};
+for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined && !key.startsWith("PLANNER_") && !key.endsWith("_API_KEY")) {
+        env[key] = value;
+    }
+}
+Object.assign(env, {
+    PLANNER_MOCK: "1",
+    PLANNER_CONFIG: join(scratchDir, "config.json"),
+    PLANNER_DATA_DIR: join(scratchDir, "data"),
+    PLANNER_SCRATCHPAD_PATH: join(scratchDir, ".cursorrules")
+});
+
+const client = new Client({ name: "mcp-openai-planner-e2e", version: "0.0.0" }, { capabilities: {} });
+const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: ["--import", "tsx", serverPath],
+    env
+});
+
+async function callTool(name: string, args: Record<string, unknown>): Promise<string> {
+    const result = await client.callTool({ name, arguments: args }) as ToolResult;
+    const text = result.content.map(part => part.text ?? "").join("\n");
+    assert.ok(!result.isError, `${name} failed: ${text}`);
+    return text;
+}
+
+const checks: Array<[string, () => Promise<void>]> = [
+    ["tools/list advertises the planning tools", async () => {
+        const { tools } = await client.listTools();
+        const names = tools.map(tool => tool.name);
+        for (const name of ["openai_chat", "openai_plan", "openai_consensus_plan"]) {
+            assert.ok(names.includes(name), `missing tool ${name}`);
+        }
+    }],
+    ["openai_chat replies", async () => {
+        const text = await callTool("openai_chat", {
+            model: "gpt-4o",
+            messages: [{ role: "user", content: "ping from the e2e check" }]
+        });
+        assert.match(text, /ping from the e2e check/);
+    }],
+    ["openai_plan returns a planner response", async () => {
+        const text = await callTool("openai_plan", {
+            task: "Add a health check endpoint",
+            status: "Nothing started yet",
+            question: "Where should the endpoint live?",
+            include_tasks: false
+        });
+        assert.match(text, /\[PLANNER RESPONSE\]/);
+        assert.match(text, /Next Steps/);
+    }],
+    ["openai_plan returns structured output", async () => {
+        const text = await callTool("openai_plan", {
+            task: "Add a health check endpoint",
+            question: "Where should the endpoint live?",
+            response_format: { type: "structured" },
+            include_tasks: false
+        });
+        assert.match(text, /"next_steps"/);
+    }],
+    ["openai_plan continues a session", async () => {
+        const args = { session_id: "e2e", task: "Add a health check endpoint", include_tasks: false };
+        await callTool("openai_plan", { ...args, question: "Where should the endpoint live?" });
+        await callTool("openai_plan", { ...args, question: "The endpoint is added and the tests pass. What next?" });
+        const text = await callTool("session_show", { session_id: "e2e" });
+        assert.match(text, /Messages: 4/);
+    }]
+];
+
+let failures = 0;
+try {
+    await client.connect(transport);
+    for (const [name, check] of checks) {
+        try {
+            await check();
+            console.log(`ok - ${name}`);
+        } catch (error) {
+            failures++;
+            console.log(`not ok - ${name}\n  ${(error as Error).message.replace(/\n/g, "\n  ")}`);
+        }
+    }
+} finally {
+    await client.close();
+    rmSync(scratchDir, { recursive: true, force: true });
+}
+
+if (failures > 0) {
+    console.log(`${failures} of ${checks.length} checks failed`);
+    process.exit(1);
+}
+console.log(`All ${checks.length} checks passed`);
@@ -0,0 +1,175 @@
+import { promises as fs } from "fs";
+import { randomUUID } from "crypto";
+import { dataPath, readJsonFile, withFileLock, writeJsonFile } from "./storage.js";
+import { plannerError } from "./errors.js";
+import { PlanMessage, messageText } from "./types.js";
+
+export interface SessionMessage extends PlanMessage {
+    timestamp: string;
+}
+
+export interface PlanningSession {
+    id: string;
+    created_at: string;
+    updated_at: string;
+    forked_from?: string;
+    model?: string;
+    messages: SessionMessage[];
+}
+
+export interface SessionSummary {
+    id: string;
+    created_at: string;
+    updated_at: string;
+    forked_from?: string;
+    model?: string;
+    message_count: number;
+    last_message?: string;
+}
+
+// Session ids become file names, so keep them to a safe character set
+const SESSION_ID_PATTERN = /^[A-Za-z0-9._-]{1,128}$/;
+
+export function isValidSessionId(id: string): boolean {
+    return SESSION_ID_PATTERN.test(id) && id !== "." && id !== "..";
+}
+
+function assertValidSessionId(id: string): void {
+    if (!isValidSessionId(id)) {
+        throw plannerError("invalid_request", `Invalid session id: ${id}. Use letters, digits, ".", "_" or "-" (max 128 characters)`);
+    }
+}
+
+function sessionPath(id: string): string {
+    return dataPath("sessions", `${id}.json`);
+}
+
+export async function loadSession(id: string): Promise<PlanningSession | undefined> {
+    assertValidSessionId(id);
+    return readJsonFile<PlanningSession>(sessionPath(id));
+}
+
+export async function saveSession(session: PlanningSession): Promise<void> {
+    assertValidSessionId(session.id);
+    await writeJsonFile(sessionPath(session.id), session);
+}
+
+// Append turns to a session, creating it on first use. Appends to one session run one at a time.
+export async function appendToSession(id: string, messages: PlanMessage[], model?: string): Promise<PlanningSession> {
+    assertValidSessionId(id);
+    return withFileLock(sessionPath(id), async () => {
+        const now = new Date().toISOString();
+        const session = await loadSession(id) ?? {
+            id,
+            created_at: now,
+            updated_at: now,
+            messages: []
+        };
+
+        session.messages.push(...messages.map(message => ({
+            role: message.role,
+            content: message.content,
+            timestamp: now
+        })));
+        session.updated_at = now;
+        if (model) {
+            session.model = model;
+        }
+
+        await saveSession(session);
+        return session;
+    });
+}
+
+export async function listSessions(): Promise<SessionSummary[]> {
+    let files: string[];
+    try {
+        files = await fs.readdir(dataPath("sessions"));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            return [];
+        }
+        throw error;
+    }
+
+    const sessions = await Promise.all(files
+        .filter(file => file.endsWith(".json"))
+        .map(file => readJsonFile<PlanningSession>(dataPath("sessions", file))));
+
+    return sessions
+        .filter((session): session is PlanningSession => !!session)
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+        .map(session => {
+            const last = session.messages[session.messages.length - 1];
+            return {
+                id: session.id,
+                created_at: session.created_at,
+                updated_at: session.updated_at,
+                forked_from: session.forked_from,
+                model: session.model,
+                message_count: session.messages.length,
+                last_message: last ? messageText(last).slice(0, 200) : undefined
+            };
+        });
+}
+
+// Copy a session (optionally only its first `upTo` messages) under a new id
+export async function forkSession(sourceId: string, newId?: string, upTo?: number): Promise<PlanningSession> {
+    const source = await loadSession(sourceId);
+    if (!source) {
+        throw plannerError("invalid_request", `Session not found: ${sourceId}`);
+    }
+
+    const id = newId ?? `${sourceId}-${randomUUID().slice(0, 8)}`;
+    assertValidSessionId(id);
+    // Check and create under the new session's lock, so two forks to one id can't both succeed
+    return withFileLock(sessionPath(id), async () => {
+        if (await loadSession(id)) {
+            throw plannerError("invalid_request", `Session already exists: ${id}`);
+        }
+
+        const now = new Date().toISOString();
+        const fork: PlanningSession = {
+            ...source,
+            id,
+            created_at: now,
+            updated_at: now,
+            forked_from: sourceId,
+            messages: source.messages.slice(0, upTo ?? source.messages.length)
+        };
+        await saveSession(fork);
+        return fork;
+    });
+}
+
+export async function deleteSession(id: string): Promise<boolean> {
+    assertValidSessionId(id);
+    return withFileLock(sessionPath(id), async () => {
+        try {
+            await fs.unlink(sessionPath(id));
+            return true;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                return false;
+            }
+            throw error;
+        }
+    });
+}
+
+// Render a session transcript for the session_show tool
+export function formatSession(session: PlanningSession): string {
+    const header = [
+        `Session: ${session.id}`,
+        `Created: ${session.created_at}`,
+        `Updated: ${session.updated_at}`,
+        ...(session.forked_from ? [`Forked from: ${session.forked_from}`] : []),
+        ...(session.model ? [`Model: ${session.model}`] : []),
+        `Messages: ${session.messages.length}`
+    ].join("\n");
+
+    const turns = session.messages.map((message, index) =>
+        `--- #${index + 1} ${message.role} (${message.timestamp}) ---\n${messageText(message)}`
+    );
+    return [header, ...turns].join("\n\n");
+}
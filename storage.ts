@@ -0,0 +1,53 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import { dirname, join, resolve } from "path";
+
+// Root directory for everything the server persists (sessions, caches, ledgers)
+export function getDataDir(): string {
+    return resolve(process.cwd(), process.env.PLANNER_DATA_DIR || ".mcp-openai-planner");
+}
+
+export function dataPath(...segments: string[]): string {
+    return join(getDataDir(), ...segments);
+}
+
+// Read and parse a JSON file, returning undefined when it does not exist
+export async function readJsonFile<T>(path: string): Promise<T | undefined> {
+    try {
+        return JSON.parse(await fs.readFile(path, "utf8")) as T;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+// Write a file through a temporary file so a crash never leaves a half-written file behind.
+// Each write gets its own temporary file, so concurrent writes to one path cannot collide.
+export async function writeFileAtomic(path: string, text: string): Promise<void> {
+    await fs.mkdir(dirname(path), { recursive: true });
+    const tmpPath = `${path}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmpPath, text, "utf8");
+    await fs.rename(tmpPath, path);
+}
+
+export async function writeJsonFile(path: string, value: unknown): Promise<void> {
+    await writeFileAtomic(path, JSON.stringify(value, null, 2) + "\n");
+}
+
+const fileQueues = new Map<string, Promise<unknown>>();
+
+// Run a read-modify-write of one file after the ones already queued for it, so concurrent tool
+// calls (from one client or several sharing the server) don't lose each other's changes
+export function withFileLock<T>(path: string, task: () => Promise<T>): Promise<T> {
+    const run = (fileQueues.get(path) ?? Promise.resolve()).then(task);
+    const settled = run.catch(() => undefined);
+    fileQueues.set(path, settled);
+    settled.then(() => {
+        if (fileQueues.get(path) === settled) {
+            fileQueues.delete(path);
+        }
+    });
+    return run;
+}
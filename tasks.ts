@@ -0,0 +1,315 @@
+import { dataPath, readJsonFile, withFileLock, writeJsonFile } from "./storage.js";
+import { plannerError } from "./errors.js";
+import type { PlannerResponse } from "./planner-response.js";
+
+// Status values follow what the Executor reports in the scratchpad: not started, in progress, blocked, done
+export const TASK_STATUSES = ["todo", "in_progress", "blocked", "done"] as const;
+export type TaskStatus = typeof TASK_STATUSES[number];
+
+export const TASK_OWNERS = ["planner", "executor"] as const;
+export type TaskOwner = typeof TASK_OWNERS[number];
+
+export interface Task {
+    id: string;
+    title: string;
+    description?: string;
+    status: TaskStatus;
+    owner: TaskOwner;
+    // Id of the task this one is a subtask of
+    parent?: string;
+    // Ids of the tasks that must be done before this one can start
+    depends_on: string[];
+    success_criteria: string[];
+    // Latest progress report or blocker
+    notes?: string;
+    created_at: string;
+    updated_at: string;
+}
+
+interface TaskBoard {
+    next_id: number;
+    tasks: Task[];
+}
+
+// Fields task_update can set; undefined leaves a field unchanged, and an empty string clears parent,
+// description or notes
+export interface TaskChanges {
+    title?: string;
+    description?: string;
+    status?: TaskStatus;
+    owner?: TaskOwner;
+    parent?: string;
+    depends_on?: string[];
+    success_criteria?: string[];
+    notes?: string;
+}
+
+export interface TaskFilter {
+    status?: TaskStatus;
+    owner?: TaskOwner;
+    // Only this task and its subtasks
+    root?: string;
+}
+
+export const TASKS_ALL_URI = "tasks://all";
+const TASK_URI_PREFIX = "tasks://task/";
+
+export function taskUri(id: string): string {
+    return `${TASK_URI_PREFIX}${id}`;
+}
+
+// Map a tasks:// URI back to a task id, or "all" for the whole board
+export function resolveTaskUri(uri: string): string | undefined {
+    if (uri === TASKS_ALL_URI) {
+        return "all";
+    }
+    return uri.startsWith(TASK_URI_PREFIX) ? uri.slice(TASK_URI_PREFIX.length) : undefined;
+}
+
+function tasksPath(): string {
+    return dataPath("tasks.json");
+}
+
+export async function loadTasks(): Promise<Task[]> {
+    return (await readJsonFile<TaskBoard>(tasksPath()))?.tasks ?? [];
+}
+
+// Read-modify-write of the board, one at a time so concurrent tool calls don't lose each other's changes
+function modifyBoard<T>(change: (board: TaskBoard) => T): Promise<T> {
+    return withFileLock(tasksPath(), async () => {
+        const board = await readJsonFile<TaskBoard>(tasksPath()) ?? { next_id: 1, tasks: [] };
+        const result = change(board);
+        await writeJsonFile(tasksPath(), board);
+        return result;
+    });
+}
+
+function findTask(tasks: Task[], id: string): Task {
+    const task = tasks.find(task => task.id === id);
+    if (!task) {
+        throw plannerError("invalid_request", `Task not found: ${id}`);
+    }
+    return task;
+}
+
+// Check that a task's parent and dependencies exist and don't loop back to it
+function checkLinks(tasks: Task[], task: Task): void {
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    for (const id of [...(task.parent ? [task.parent] : []), ...task.depends_on]) {
+        if (!byId.has(id)) {
+            throw plannerError("invalid_request", `Task not found: ${id}`);
+        }
+    }
+
+    for (let parent = task.parent; parent; parent = byId.get(parent)?.parent) {
+        if (parent === task.id) {
+            throw plannerError("invalid_request", `Task ${task.id} cannot be its own ancestor`);
+        }
+    }
+
+    const seen = new Set<string>();
+    const stack = [...task.depends_on];
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (id === task.id) {
+            throw plannerError("invalid_request", `Dependencies of task ${task.id} form a cycle`);
+        }
+        if (!seen.has(id)) {
+            seen.add(id);
+            stack.push(...(byId.get(id)?.depends_on ?? []));
+        }
+    }
+}
+
+// The TaskChanges fields, listed so that keys the caller added (created_at, id, anything else) are
+// never copied onto a task
+const SET_FIELDS = ["title", "status", "owner", "depends_on", "success_criteria"] as const;
+const CLEARABLE_FIELDS = ["description", "parent", "notes"] as const;
+
+function applyChanges(task: Task, changes: TaskChanges): void {
+    const fields = task as unknown as Record<string, unknown>;
+    for (const key of SET_FIELDS) {
+        if (changes[key] !== undefined) {
+            fields[key] = changes[key];
+        }
+    }
+    for (const key of CLEARABLE_FIELDS) {
+        if (changes[key] === "") {
+            delete fields[key];
+        } else if (changes[key] !== undefined) {
+            fields[key] = changes[key];
+        }
+    }
+}
+
+// Create a task, or update one when an id is given
+export function updateTask(id: string | undefined, changes: TaskChanges): Promise<Task> {
+    return modifyBoard(board => {
+        const now = new Date().toISOString();
+        let task: Task;
+        if (id === undefined) {
+            if (!changes.title) {
+                throw plannerError("invalid_request", "A title is required to create a task");
+            }
+            task = {
+                id: String(board.next_id),
+                title: changes.title,
+                status: "todo",
+                owner: "executor",
+                depends_on: [],
+                success_criteria: [],
+                created_at: now,
+                updated_at: now
+            };
+            applyChanges(task, changes);
+            checkLinks([...board.tasks, task], task);
+            board.tasks.push(task);
+            board.next_id++;
+        } else {
+            // A change that fails the checks throws before the board is written, so nothing is saved
+            task = findTask(board.tasks, id);
+            applyChanges(task, changes);
+            task.updated_at = now;
+            checkLinks(board.tasks, task);
+        }
+        return task;
+    });
+}
+
+// Delete a task with its subtasks, and drop them from other tasks' dependencies.
+// Returns the ids that were deleted.
+export function deleteTask(id: string): Promise<string[]> {
+    return modifyBoard(board => {
+        findTask(board.tasks, id);
+        const deleted = new Set([id]);
+        for (let grew = true; grew;) {
+            grew = false;
+            for (const task of board.tasks) {
+                if (task.parent && deleted.has(task.parent) && !deleted.has(task.id)) {
+                    deleted.add(task.id);
+                    grew = true;
+                }
+            }
+        }
+        board.tasks = board.tasks.filter(task => !deleted.has(task.id));
+        for (const task of board.tasks) {
+            task.depends_on = task.depends_on.filter(dep => !deleted.has(dep));
+        }
+        return [...deleted];
+    });
+}
+
+// Add the next steps of a planner response as executor tasks, in order. Each step depends on the one
+// before it, and steps already tracked under the same parent (by title) are skipped.
+export function importPlanSteps(plan: PlannerResponse, parent?: string): Promise<Task[]> {
+    return modifyBoard(board => {
+        if (parent) {
+            findTask(board.tasks, parent);
+        }
+        const now = new Date().toISOString();
+        const created: Task[] = [];
+        let previous: string | undefined;
+        for (const step of plan.next_steps) {
+            const title = step.instruction.trim();
+            const existing = board.tasks.find(task => task.parent === parent && task.title === title);
+            if (existing) {
+                previous = existing.id;
+                continue;
+            }
+            const task: Task = {
+                id: String(board.next_id++),
+                title,
+                status: "todo",
+                owner: "executor",
+                ...(parent ? { parent } : {}),
+                depends_on: previous ? [previous] : [],
+                success_criteria: [],
+                created_at: now,
+                updated_at: now
+            };
+            board.tasks.push(task);
+            created.push(task);
+            previous = task.id;
+        }
+        return created;
+    });
+}
+
+// Tasks matching the filter, in tree order
+export function filterTasks(tasks: Task[], filter: TaskFilter = {}): Task[] {
+    const subtree = new Set<string>();
+    if (filter.root) {
+        findTask(tasks, filter.root);
+        subtree.add(filter.root);
+        for (let grew = true; grew;) {
+            grew = false;
+            for (const task of tasks) {
+                if (task.parent && subtree.has(task.parent) && !subtree.has(task.id)) {
+                    subtree.add(task.id);
+                    grew = true;
+                }
+            }
+        }
+    }
+    return treeOrder(tasks).filter(task =>
+        (!filter.status || task.status === filter.status)
+        && (!filter.owner || task.owner === filter.owner)
+        && (!filter.root || subtree.has(task.id)));
+}
+
+// Parents before their subtasks, siblings in creation order
+function treeOrder(tasks: Task[]): Task[] {
+    const ids = new Set(tasks.map(task => task.id));
+    const ordered: Task[] = [];
+    const visit = (parent: string | undefined) => {
+        for (const task of tasks) {
+            const taskParent = task.parent && ids.has(task.parent) ? task.parent : undefined;
+            if (taskParent === parent) {
+                ordered.push(task);
+                visit(task.id);
+            }
+        }
+    };
+    visit(undefined);
+    return ordered;
+}
+
+// Tasks that can be started now: not started, and every dependency done
+export function readyTasks(tasks: Task[]): Task[] {
+    const done = new Set(tasks.filter(task => task.status === "done").map(task => task.id));
+    return treeOrder(tasks).filter(task => task.status === "todo" && task.depends_on.every(dep => done.has(dep)));
+}
+
+// Render tasks as an indented markdown checklist, for the planner and for people
+export function formatTasks(tasks: Task[]): string {
+    const depth = new Map<string, number>();
+    return tasks.map(task => {
+        const level = task.parent && depth.has(task.parent) ? depth.get(task.parent)! + 1 : 0;
+        depth.set(task.id, level);
+        const indent = "  ".repeat(level);
+        const details = [
+            task.description,
+            task.depends_on.length > 0 ? `Depends on: ${task.depends_on.join(", ")}` : undefined,
+            ...task.success_criteria.map(criterion => `Success criterion: ${criterion}`),
+            task.notes ? `Notes: ${task.notes}` : undefined
+        ].filter(line => line);
+        return [
+            `${indent}- [${task.status}] ${task.id}. ${task.title} (${task.owner})`,
+            ...details.map(line => `${indent}  ${line}`)
+        ].join("\n");
+    }).join("\n");
+}
+
+// The task state message openai_plan attaches to planner requests
+export function formatTaskState(tasks: Task[]): string {
+    const counts = TASK_STATUSES.map(status => `${tasks.filter(task => task.status === status).length} ${status}`).join(", ");
+    const ready = readyTasks(tasks);
+    return [
+        "[TASK STATE]",
+        `Tasks tracked by the server (${counts}):`,
+        "",
+        formatTasks(treeOrder(tasks)),
+        "",
+        ready.length > 0 ? `Ready to start: ${ready.map(task => task.id).join(", ")}` : "No task is ready to start."
+    ].join("\n");
+}
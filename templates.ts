@@ -0,0 +1,131 @@
+import { promises as fs } from "fs";
+import { basename, dirname, relative, resolve } from "path";
+import { fileURLToPath } from "url";
+import { getConfigPath, loadConfigFile } from "./config.js";
+import { getScratchpadPath } from "./scratchpad.js";
+
+export interface TemplateArgument {
+    name: string;
+    description: string;
+    required?: boolean;
+    // Used when the argument is not given
+    default?: string;
+}
+
+export interface TemplateDefinition {
+    name: string;
+    description: string;
+    // Variables the caller fills in; other {{variables}} come from the server (see templateVariables)
+    arguments: TemplateArgument[];
+}
+
+// Templates the server uses. Each is a markdown file named after the template.
+export const TEMPLATES: readonly TemplateDefinition[] = [
+    {
+        name: "coordinator",
+        description: "Instructions for the multi-agent coordinator playing the Planner and Executor roles, sent as the developer message of openai_plan",
+        arguments: []
+    },
+    {
+        name: "planner",
+        description: "Role description and [PLANNER RESPONSE] format for the Planner, prepended to planner turns of openai_plan",
+        arguments: []
+    },
+    {
+        name: "consensus_judge",
+        description: "Instructions for the judge of openai_consensus_plan, which compares the planners' drafts and merges them into one [PLANNER RESPONSE]",
+        arguments: []
+    },
+    {
+        name: "reviewer",
+        description: "Instructions for openai_review, which grades the Executor's evidence against the success criteria and replies with a [REVIEW VERDICT]",
+        arguments: []
+    },
+    {
+        name: "agent_mode",
+        description: "Tells the Planner it may call read-only workspace functions, sent as a developer message when openai_plan runs in agent mode",
+        arguments: []
+    },
+    {
+        name: "executor_request",
+        description: "Wrapper that turns an Executor message into an [EXECUTOR REQUEST] for the Planner. Overrides must keep [EXECUTOR REQUEST] as the first line",
+        arguments: [
+            { name: "task", description: "Task the Executor is working on", default: "Project planning/implementation" },
+            { name: "status", description: "Current status of the task", default: "Seeking guidance" },
+            { name: "blockers", description: "What is keeping the Executor from making progress", default: "None reported" },
+            { name: "question", description: "What the Executor needs from the Planner", required: true }
+        ]
+    }
+];
+
+export type TemplateName = "coordinator" | "planner" | "consensus_judge" | "reviewer" | "agent_mode" | "executor_request";
+
+interface PromptSettings {
+    dir?: string;
+    variables?: Record<string, string>;
+}
+
+function getPromptSettings(): PromptSettings {
+    return (loadConfigFile() as { prompts?: PromptSettings }).prompts ?? {};
+}
+
+// Built-in templates ship next to the compiled server (copied to dist/prompts by the build)
+const BUILTIN_TEMPLATE_DIR = fileURLToPath(new URL("./prompts/", import.meta.url));
+
+// Project overrides sit next to the config file rather than in the data directory, which is
+// git-ignored, so they can be committed with the project
+const PROJECT_TEMPLATE_DIR = ".mcp-openai-planner.prompts";
+
+// Directories searched for `<name>.md`, highest priority first: the project's own overrides,
+// the configured template directory, then the built-in templates
+export function templateDirs(): string[] {
+    const configured = process.env.PLANNER_PROMPTS_DIR ?? getPromptSettings().dir;
+    return [
+        resolve(dirname(getConfigPath()), PROJECT_TEMPLATE_DIR),
+        ...(configured ? [resolve(process.cwd(), configured)] : []),
+        BUILTIN_TEMPLATE_DIR
+    ];
+}
+
+async function readTemplate(name: TemplateName): Promise<string> {
+    for (const dir of templateDirs()) {
+        try {
+            return await fs.readFile(resolve(dir, `${name}.md`), "utf8");
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+                throw error;
+            }
+        }
+    }
+    throw new Error(`Template not found: ${name} (searched ${templateDirs().join(", ")})`);
+}
+
+// Variables every template can use. Projects add their own (e.g. "lessons") under prompts.variables.
+function templateVariables(): Record<string, string> {
+    return {
+        project_name: basename(process.cwd()),
+        scratchpad_file: relative(process.cwd(), getScratchpadPath()) || ".cursorrules",
+        date: new Date().toISOString().slice(0, 10),
+        lessons: "",
+        ...getPromptSettings().variables
+    };
+}
+
+// Replace {{variable}} placeholders. Unknown placeholders are left alone so literal braces survive.
+export function substitute(template: string, variables: Record<string, string | undefined>): string {
+    return template.replace(/\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g, (placeholder, name: string) =>
+        variables[name] !== undefined ? variables[name]! : placeholder);
+}
+
+export async function renderTemplate(name: TemplateName, variables: Record<string, string | undefined> = {}): Promise<string> {
+    const template = await readTemplate(name);
+    const defaults = Object.fromEntries((findTemplate(name)?.arguments ?? [])
+        .filter(arg => arg.default !== undefined)
+        .map(arg => [arg.name, arg.default]));
+    const given = Object.fromEntries(Object.entries(variables).filter(([, value]) => value !== undefined));
+    return substitute(template, { ...templateVariables(), ...defaults, ...given }).trim();
+}
+
+export function findTemplate(name: string): TemplateDefinition | undefined {
+    return TEMPLATES.find(template => template.name === name);
+}
@@ -0,0 +1,130 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+// The subset of JSON Schema used by the tool input schemas. The same definitions are advertised
+// in tools/list and enforced on every call, so the two cannot drift apart.
+export interface JsonSchema {
+    type?: "object" | "array" | "string" | "integer" | "number" | "boolean";
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: readonly string[];
+    items?: JsonSchema;
+    oneOf?: JsonSchema[];
+    enum?: readonly unknown[];
+    default?: unknown;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    minItems?: number;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function matchesType(type: NonNullable<JsonSchema["type"]>, value: unknown): boolean {
+    switch (type) {
+        case "object":
+            return isObject(value);
+        case "array":
+            return Array.isArray(value);
+        case "integer":
+            return Number.isInteger(value);
+        case "number":
+            return typeof value === "number" && Number.isFinite(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+function describeType(schema: JsonSchema): string {
+    const type = schema.type ?? "value";
+    return `${/^[aeiou]/.test(type) ? "an" : "a"} ${type}`;
+}
+
+function childPath(path: string, key: string | number): string {
+    if (typeof key === "number") {
+        return `${path}[${key}]`;
+    }
+    return path ? `${path}.${key}` : key;
+}
+
+// Check `value` against `schema`, pushing one message per problem onto `errors`. Returns the value
+// with defaults filled in for omitted properties.
+function check(schema: JsonSchema, value: unknown, path: string, errors: string[]): unknown {
+    const label = path || "arguments";
+
+    if (schema.oneOf) {
+        // Alternatives differ by type, so report the nested problems of the one whose type matches
+        const candidates = schema.oneOf.filter(alternative => !alternative.type || matchesType(alternative.type, value));
+        if (candidates.length === 1) {
+            return check(candidates[0], value, path, errors);
+        }
+        for (const alternative of candidates) {
+            const alternativeErrors: string[] = [];
+            const result = check(alternative, value, path, alternativeErrors);
+            if (alternativeErrors.length === 0) {
+                return result;
+            }
+        }
+        errors.push(`${label} must be ${schema.oneOf.map(describeType).join(" or ")}`);
+        return value;
+    }
+
+    if (schema.type && !matchesType(schema.type, value)) {
+        errors.push(`${label} must be ${describeType(schema)}`);
+        return value;
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${label} must be one of: ${schema.enum.join(", ")} (got ${JSON.stringify(value)})`);
+        return value;
+    }
+    if (typeof value === "number") {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${label} must be at least ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push(`${label} must be at most ${schema.maximum}`);
+        }
+    }
+    if (typeof value === "string" && schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push(`${label} must not be empty`);
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${label} must have at least ${schema.minItems} item${schema.minItems === 1 ? "" : "s"}`);
+        }
+        return schema.items
+            ? value.map((item, index) => check(schema.items!, item, childPath(path, index), errors))
+            : value;
+    }
+
+    if (isObject(value) && schema.properties) {
+        const result: Record<string, unknown> = { ...value };
+        for (const [key, property] of Object.entries(schema.properties)) {
+            if (value[key] === undefined) {
+                if (property.default !== undefined) {
+                    result[key] = structuredClone(property.default);
+                } else if (schema.required?.includes(key)) {
+                    errors.push(`${childPath(path, key)} is required`);
+                }
+                continue;
+            }
+            result[key] = check(property, value[key], childPath(path, key), errors);
+        }
+        return result;
+    }
+
+    return value;
+}
+
+// Validate a tool call's arguments against the tool's input schema and apply its defaults.
+// Throws InvalidParams listing every problem found.
+export function validateArguments(toolName: string, schema: JsonSchema, args: Record<string, unknown> | undefined): Record<string, unknown> {
+    const errors: string[] = [];
+    const result = check(schema, args ?? {}, "", errors);
+    if (errors.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${toolName}: ${errors.join("; ")}`);
+    }
+    return result as Record<string, unknown>;
+}
@@ -0,0 +1,21 @@
+// Message shapes accepted by the tools, before conversion to OpenAI's types
+export interface TextContentPart {
+    type: string;
+    text: string;
+}
+
+export interface PlanMessage {
+    role: string;
+    content: string | TextContentPart[];
+}
+
+// The text of a tool or OpenAI message, with the text parts of multi-part content joined by newlines
+export function messageText(message: { content?: string | object[] | null } | undefined): string {
+    if (!message?.content) {
+        return "";
+    }
+    if (typeof message.content === "string") {
+        return message.content;
+    }
+    return message.content.map(part => ("text" in part ? String(part.text) : "")).join("\n");
+}
@@ -0,0 +1,211 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import type { CompletionUsage } from "openai/resources/completions";
+import { loadConfigFile } from "./config.js";
+import { plannerError } from "./errors.js";
+import { ModelConfig } from "./models.js";
+import { dataPath } from "./storage.js";
+
+// Who made a call, for attributing spend
+export interface UsageContext {
+    tool: string;
+    session_id?: string;
+}
+
+export interface UsageEntry {
+    timestamp: string;
+    tool: string;
+    model: string;
+    provider: string;
+    session_id?: string;
+    prompt_tokens: number;
+    cached_prompt_tokens: number;
+    completion_tokens: number;
+    // Included in completion_tokens; recorded separately because they dominate o-series costs
+    reasoning_tokens: number;
+    cost_usd: number;
+}
+
+export interface UsageTotals {
+    calls: number;
+    prompt_tokens: number;
+    completion_tokens: number;
+    reasoning_tokens: number;
+    cost_usd: number;
+}
+
+export interface UsageReport {
+    since?: string;
+    until?: string;
+    total: UsageTotals;
+    by_model: Record<string, UsageTotals>;
+    by_tool: Record<string, UsageTotals>;
+    by_session: Record<string, UsageTotals>;
+    budgets: BudgetStatus;
+}
+
+export interface Budgets {
+    daily_usd?: number;
+    session_usd?: number;
+}
+
+export interface BudgetStatus extends Budgets {
+    spent_today_usd: number;
+}
+
+function ledgerPath(): string {
+    return dataPath("usage.jsonl");
+}
+
+function checkBudget(name: string, value: unknown, text = JSON.stringify(value)): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        throw new Error(`Invalid ${name}: ${text}. Must be a non-negative number of US dollars`);
+    }
+    return value;
+}
+
+// Budget caps from the config file's "budgets" key, overridable from the environment. A malformed cap
+// throws rather than silently turning the budget off.
+export function getBudgets(): Budgets {
+    const configured = (loadConfigFile() as { budgets?: Budgets }).budgets ?? {};
+    const fromEnv = (name: string) => process.env[name] ? checkBudget(name, Number(process.env[name]), process.env[name]) : undefined;
+    return {
+        daily_usd: fromEnv("PLANNER_DAILY_BUDGET_USD") ?? checkBudget("budgets.daily_usd", configured.daily_usd),
+        session_usd: fromEnv("PLANNER_SESSION_BUDGET_USD") ?? checkBudget("budgets.session_usd", configured.session_usd)
+    };
+}
+
+export function estimateCost(model: ModelConfig, usage: CompletionUsage): number {
+    if (!model.pricing) {
+        return 0;
+    }
+    const cached = usage.prompt_tokens_details?.cached_tokens ?? 0;
+    const { input_per_1m, cached_input_per_1m = input_per_1m, output_per_1m } = model.pricing;
+    return ((usage.prompt_tokens - cached) * input_per_1m
+        + cached * cached_input_per_1m
+        + usage.completion_tokens * output_per_1m) / 1_000_000;
+}
+
+export async function readLedger(): Promise<UsageEntry[]> {
+    let text: string;
+    try {
+        text = await fs.readFile(ledgerPath(), "utf8");
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            return [];
+        }
+        throw error;
+    }
+    return text
+        .split("\n")
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as UsageEntry);
+}
+
+export async function recordUsage(model: ModelConfig, usage: CompletionUsage | undefined, context: UsageContext): Promise<UsageEntry> {
+    const entry: UsageEntry = {
+        timestamp: new Date().toISOString(),
+        tool: context.tool,
+        model: model.id,
+        provider: model.provider,
+        session_id: context.session_id,
+        prompt_tokens: usage?.prompt_tokens ?? 0,
+        cached_prompt_tokens: usage?.prompt_tokens_details?.cached_tokens ?? 0,
+        completion_tokens: usage?.completion_tokens ?? 0,
+        reasoning_tokens: usage?.completion_tokens_details?.reasoning_tokens ?? 0,
+        cost_usd: usage ? estimateCost(model, usage) : 0
+    };
+    await fs.mkdir(dirname(ledgerPath()), { recursive: true });
+    await fs.appendFile(ledgerPath(), JSON.stringify(entry) + "\n", "utf8");
+    return entry;
+}
+
+function startOfToday(): Date {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return today;
+}
+
+function sumCost(entries: UsageEntry[]): number {
+    return entries.reduce((total, entry) => total + entry.cost_usd, 0);
+}
+
+// Refuse the call when today's spend or the session's spend already reached its cap
+export async function assertWithinBudget(context: UsageContext): Promise<void> {
+    const budgets = getBudgets();
+    if (budgets.daily_usd === undefined && (budgets.session_usd === undefined || !context.session_id)) {
+        return;
+    }
+
+    const entries = await readLedger();
+    if (budgets.daily_usd !== undefined) {
+        const since = startOfToday().toISOString();
+        const spent = sumCost(entries.filter(entry => entry.timestamp >= since));
+        if (spent >= budgets.daily_usd) {
+            throw plannerError("budget_exceeded", `Daily budget of $${budgets.daily_usd.toFixed(2)} reached ($${spent.toFixed(4)} spent today)`);
+        }
+    }
+    if (budgets.session_usd !== undefined && context.session_id) {
+        const spent = sumCost(entries.filter(entry => entry.session_id === context.session_id));
+        if (spent >= budgets.session_usd) {
+            throw plannerError("budget_exceeded", `Session budget of $${budgets.session_usd.toFixed(2)} reached for ${context.session_id} ($${spent.toFixed(4)} spent)`);
+        }
+    }
+}
+
+function emptyTotals(): UsageTotals {
+    return { calls: 0, prompt_tokens: 0, completion_tokens: 0, reasoning_tokens: 0, cost_usd: 0 };
+}
+
+function addTo(totals: UsageTotals, entry: UsageEntry): void {
+    totals.calls++;
+    totals.prompt_tokens += entry.prompt_tokens;
+    totals.completion_tokens += entry.completion_tokens;
+    totals.reasoning_tokens += entry.reasoning_tokens;
+    totals.cost_usd += entry.cost_usd;
+}
+
+// Normalize a since/until bound to the ISO form the ledger timestamps use, so they compare as strings
+function parseBound(name: string, value: string | undefined): string | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const time = new Date(value);
+    if (Number.isNaN(time.getTime())) {
+        throw plannerError("invalid_request", `Invalid ${name}: ${value}. Use an ISO 8601 date or date/time, e.g. 2025-03-01 or 2025-03-01T12:00:00Z`);
+    }
+    return time.toISOString();
+}
+
+export async function buildUsageReport(filter: { since?: string; until?: string; session_id?: string }): Promise<UsageReport> {
+    const since = parseBound("since", filter.since);
+    const until = parseBound("until", filter.until);
+    const ledger = await readLedger();
+    const entries = ledger.filter(entry =>
+        (!since || entry.timestamp >= since)
+        && (!until || entry.timestamp < until)
+        && (!filter.session_id || entry.session_id === filter.session_id));
+
+    const report: UsageReport = {
+        since,
+        until,
+        total: emptyTotals(),
+        by_model: {},
+        by_tool: {},
+        by_session: {},
+        budgets: { ...getBudgets(), spent_today_usd: 0 }
+    };
+    for (const entry of entries) {
+        addTo(report.total, entry);
+        addTo(report.by_model[entry.model] ??= emptyTotals(), entry);
+        addTo(report.by_tool[entry.tool] ??= emptyTotals(), entry);
+        addTo(report.by_session[entry.session_id ?? "(none)"] ??= emptyTotals(), entry);
+    }
+
+    const today = startOfToday().toISOString();
+    report.budgets.spent_today_usd = sumCost(ledger.filter(entry => entry.timestamp >= today));
+    return report;
+}
@@ -0,0 +1,424 @@
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import { extname, isAbsolute, relative, resolve, sep } from "path";
+import { promisify } from "util";
+import { loadConfigFile } from "./config.js";
+import { plannerError } from "./errors.js";
+import { ModelConfig, estimateTokens } from "./models.js";
+import { getDataDir } from "./storage.js";
+
+const execFileAsync = promisify(execFile);
+
+// What openai_plan should show the planner from the workspace
+export interface WorkspaceRequest {
+    files?: string[];
+    globs?: string[];
+    // Ref to diff the working tree against, e.g. HEAD or main
+    git_diff?: string;
+    max_tokens?: number;
+}
+
+interface WorkspaceSettings {
+    root?: string;
+    max_tokens?: number;
+    // Extra deny-list patterns, added to DEFAULT_DENY
+    deny?: string[];
+}
+
+// How much of an item made it into the request
+export type PackedStatus = "full" | "truncated" | "summarized" | "omitted";
+
+export interface PackedItem {
+    label: string;
+    status: PackedStatus;
+    tokens: number;
+    original_tokens: number;
+    note?: string;
+}
+
+export interface WorkspaceContext {
+    text: string;
+    items: PackedItem[];
+    tokens: number;
+    max_tokens: number;
+}
+
+// Items in priority order: named files first, then the diff, then glob matches. When the budget
+// runs out, the first two are truncated and glob matches are reduced to an outline.
+type ItemKind = "file" | "diff" | "glob";
+
+interface ContextItem {
+    kind: ItemKind;
+    label: string;
+    content: string;
+    language: string;
+    note?: string;
+}
+
+const DEFAULT_MAX_TOKENS = 32000;
+export const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_GLOB_MATCHES = 200;
+const MAX_DIFF_BYTES = 10 * 1024 * 1024;
+// Share of the budget held back because token counts are estimates (see estimateTokens); dense code
+// can run well under 4 characters per token
+const ESTIMATE_MARGIN = 0.2;
+// Below this many tokens a truncated item is not worth including
+const MIN_PARTIAL_TOKENS = 200;
+const OUTLINE_MAX_LINES = 80;
+
+// Never walked when expanding globs
+const IGNORED_DIRS = [".git", "node_modules", "dist", "build", ".venv", "venv", "__pycache__"];
+
+// Paths never read from the workspace, whether attached to a request or asked for by the planner in
+// agent mode: secrets, git internals and the directories glob expansion skips. The server's data dir
+// is added when it is inside the workspace.
+const DEFAULT_DENY = [".env", ".env.*", ...IGNORED_DIRS];
+
+// Lines that make up a file's outline: declarations in common languages and markdown headings
+const OUTLINE_PATTERN = /^\s*(?:export\s|(?:async\s+)?function\s|class\s|interface\s|type\s|enum\s|def\s|async\s+def\s|struct\s|impl\s|trait\s|(?:pub\s+)?fn\s|func\s|#{1,3}\s)/;
+
+function getWorkspaceSettings(): WorkspaceSettings {
+    return (loadConfigFile() as { workspace?: WorkspaceSettings }).workspace ?? {};
+}
+
+// Files are only read from below the workspace root: PLANNER_WORKSPACE_ROOT, the workspace.root
+// config key, or the server's working directory
+export function getWorkspaceRoot(): string {
+    return resolve(process.cwd(), process.env.PLANNER_WORKSPACE_ROOT ?? getWorkspaceSettings().root ?? ".");
+}
+
+function isInside(root: string, path: string): boolean {
+    const rel = relative(root, path);
+    return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+// Resolve a workspace-relative path to a file (or directory), refusing anything that escapes the root,
+// including through symlinks
+export async function resolveWorkspacePath(root: string, path: string, kind: "file" | "directory" = "file"): Promise<string> {
+    const target = resolve(root, path);
+    if (!isInside(root, target)) {
+        throw plannerError("invalid_request", `Path is outside the workspace root ${root}: ${path}`);
+    }
+
+    let real: string;
+    try {
+        real = await fs.realpath(target);
+    } catch {
+        throw plannerError("invalid_request", `File not found in the workspace: ${path}`);
+    }
+    if (!isInside(await fs.realpath(root), real)) {
+        throw plannerError("invalid_request", `Path is outside the workspace root ${root}: ${path}`);
+    }
+    const stats = await fs.stat(real);
+    if (kind === "file" ? !stats.isFile() : !stats.isDirectory()) {
+        throw plannerError("invalid_request", `Not a ${kind}: ${path}`);
+    }
+    return real;
+}
+
+// What may be read: the workspace root minus the deny-list. A pattern without a slash matches any
+// path component (so ".env" also denies "config/.env"); one with a slash matches the
+// workspace-relative path of the entry or any directory above it.
+export interface Sandbox {
+    root: string;
+    realRoot: string;
+    deny: Array<{ pattern: string; regex: RegExp; anyComponent: boolean }>;
+}
+
+// The deny-list is DEFAULT_DENY plus the workspace.deny config key. agent.deny, where the list was
+// first configured, is still honored.
+export async function createSandbox(): Promise<Sandbox> {
+    const root = getWorkspaceRoot();
+    const agentDeny = (loadConfigFile() as { agent?: { deny?: string[] } }).agent?.deny ?? [];
+    const patterns = [...DEFAULT_DENY, ...(getWorkspaceSettings().deny ?? []), ...agentDeny];
+    const dataDir = relative(root, getDataDir()).split(sep).join("/");
+    if (dataDir && !dataDir.startsWith("..") && !isAbsolute(dataDir)) {
+        patterns.push(dataDir);
+    }
+    return {
+        root,
+        realRoot: await fs.realpath(root),
+        deny: patterns.map(pattern => {
+            const normalized = pattern.replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/+$/, "");
+            return { pattern, regex: globToRegExp(normalized), anyComponent: !normalized.includes("/") };
+        })
+    };
+}
+
+// The deny-list pattern a workspace-relative path falls under, if any
+export function deniedBy(sandbox: Sandbox, path: string): string | undefined {
+    const segments = path.split("/").filter(segment => segment && segment !== ".");
+    for (const rule of sandbox.deny) {
+        const hit = rule.anyComponent
+            ? segments.some(segment => rule.regex.test(segment))
+            : segments.some((_, i) => rule.regex.test(segments.slice(0, i + 1).join("/")));
+        if (hit) {
+            return rule.pattern;
+        }
+    }
+    return undefined;
+}
+
+// Resolve a path inside the sandbox. Both the path as given and the file it resolves to (through
+// symlinks) must stay clear of the deny-list.
+export async function resolveSandboxPath(sandbox: Sandbox, path: string, kind: "file" | "directory" = "file"): Promise<string> {
+    const real = await resolveWorkspacePath(sandbox.root, path, kind);
+    const given = relative(sandbox.root, resolve(sandbox.root, path)).split(sep).join("/");
+    const pattern = deniedBy(sandbox, given) ?? deniedBy(sandbox, relative(sandbox.realRoot, real).split(sep).join("/"));
+    if (pattern) {
+        throw plannerError("invalid_request", `Access denied: ${path} matches "${pattern}" in the workspace deny-list`);
+    }
+    return real;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+// Translate a glob (`*`, `?`, `**` and `{a,b}`) into a regular expression over `/`-separated paths
+export function globToRegExp(glob: string): RegExp {
+    let pattern = "";
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === "*" && glob[i + 1] === "*") {
+            // `**/` matches any number of directories, including none
+            const slash = glob[i + 2] === "/";
+            pattern += slash ? "(?:.*/)?" : ".*";
+            i += slash ? 2 : 1;
+        } else if (char === "*") {
+            pattern += "[^/]*";
+        } else if (char === "?") {
+            pattern += "[^/]";
+        } else if (char === "{" && glob.indexOf("}", i) > i) {
+            const end = glob.indexOf("}", i);
+            pattern += `(?:${glob.slice(i + 1, end).split(",").map(escapeRegExp).join("|")})`;
+            i = end;
+        } else {
+            pattern += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${pattern}$`);
+}
+
+// Expand a glob into workspace-relative file paths, walking only below its literal prefix and
+// skipping everything in the deny-list
+export async function expandGlob(sandbox: Sandbox, glob: string, limit: number): Promise<string[]> {
+    const normalized = glob.replace(/\\/g, "/").replace(/^\.\//, "");
+    if (isAbsolute(normalized) || normalized.split("/").includes("..")) {
+        throw plannerError("invalid_request", `Globs must be relative to the workspace root and stay inside it: ${glob}`);
+    }
+
+    const segments = normalized.split("/");
+    const firstWildcard = segments.findIndex(segment => /[*?{]/.test(segment));
+    const base = firstWildcard < 0 ? normalized : segments.slice(0, firstWildcard).join("/");
+    const matcher = globToRegExp(normalized);
+    const matches: string[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+        let entries;
+        try {
+            entries = await fs.readdir(resolve(sandbox.root, dir), { withFileTypes: true });
+        } catch {
+            return;
+        }
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+        for (const entry of entries) {
+            if (matches.length >= limit) {
+                return;
+            }
+            const path = dir ? `${dir}/${entry.name}` : entry.name;
+            if (deniedBy(sandbox, path)) {
+                continue;
+            }
+            if (entry.isDirectory()) {
+                await walk(path);
+            } else if (entry.isFile() && matcher.test(path)) {
+                matches.push(path);
+            }
+        }
+    };
+
+    if (firstWildcard < 0) {
+        // No wildcards: the glob names a single file
+        return [normalized];
+    }
+    await walk(base);
+    return matches;
+}
+
+async function readWorkspaceFile(sandbox: Sandbox, path: string, kind: ItemKind): Promise<ContextItem> {
+    const real = await resolveSandboxPath(sandbox, path);
+    const label = relative(sandbox.root, resolve(sandbox.root, path)).split(sep).join("/");
+    const language = extname(real).slice(1);
+    if ((await fs.stat(real)).size > MAX_FILE_BYTES) {
+        return { kind, label, content: "", language, note: `larger than ${MAX_FILE_BYTES / 1024} KB` };
+    }
+    const content = await fs.readFile(real, "utf8");
+    if (content.includes("\0")) {
+        return { kind, label, content: "", language, note: "binary file" };
+    }
+    return { kind, label, content, language };
+}
+
+// Pathspecs that keep the deny-list out of a git diff
+function denyPathspecs(sandbox: Sandbox): string[] {
+    return sandbox.deny.flatMap(({ pattern, anyComponent }) => {
+        const path = pattern.replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/+$/, "");
+        const prefix = anyComponent ? "**/" : "";
+        return [`:(glob,exclude)${prefix}${path}`, `:(glob,exclude)${prefix}${path}/**`];
+    });
+}
+
+async function readGitDiff(sandbox: Sandbox, ref: string): Promise<ContextItem> {
+    // Refs are passed to git as arguments, so refuse anything that could be read as an option
+    if (!/^[A-Za-z0-9._\/@^~{}-]+$/.test(ref) || ref.startsWith("-")) {
+        throw plannerError("invalid_request", `Invalid git ref: ${ref}`);
+    }
+    try {
+        const { stdout } = await execFileAsync("git", ["diff", "--no-color", "--no-ext-diff", ref, "--", ".", ...denyPathspecs(sandbox)], {
+            cwd: sandbox.root,
+            maxBuffer: MAX_DIFF_BYTES
+        });
+        return { kind: "diff", label: `git diff ${ref}`, content: stdout, language: "diff", note: stdout ? undefined : "no changes" };
+    } catch (error) {
+        const stderr = (error as { stderr?: string }).stderr?.trim();
+        throw plannerError("invalid_request", `git diff ${ref} failed in ${sandbox.root}: ${stderr || (error as Error).message}`);
+    }
+}
+
+function renderItem(item: ContextItem, content: string, status: PackedStatus): string {
+    const heading = status === "full" ? item.label : `${item.label} (${status})`;
+    return `### ${heading}\n\`\`\`${item.language}\n${content}${content.endsWith("\n") ? "" : "\n"}\`\`\``;
+}
+
+// Keep the first lines of `content` that fit in `tokens`
+function truncate(content: string, tokens: number, model: ModelConfig): string {
+    const lines = content.split("\n");
+    const kept: string[] = [];
+    let used = 0;
+    for (const line of lines) {
+        const cost = estimateTokens(line + "\n", model);
+        if (used + cost > tokens) {
+            break;
+        }
+        kept.push(line);
+        used += cost;
+    }
+    return `${kept.join("\n")}\n[... ${lines.length - kept.length} more lines truncated ...]`;
+}
+
+// Declarations and headings with their line numbers, so the planner knows what the file contains
+function outline(content: string): string {
+    const lines = content.split("\n");
+    const entries = lines
+        .map((line, i) => ({ line: line.trimEnd(), number: i + 1 }))
+        .filter(({ line }) => OUTLINE_PATTERN.test(line));
+    const shown = entries.slice(0, OUTLINE_MAX_LINES).map(({ line, number }) => `${number}: ${line}`);
+    if (entries.length > shown.length) {
+        shown.push(`[... ${entries.length - shown.length} more declarations ...]`);
+    }
+    return [`[outline of ${lines.length} lines]`, ...shown].join("\n");
+}
+
+// Fit the items into the budget, less ESTIMATE_MARGIN, in priority order. Each item is included whole
+// if it fits; otherwise named files and the diff are truncated and glob matches are summarized as an
+// outline. Whatever still doesn't fit is omitted and only listed.
+function pack(items: ContextItem[], maxTokens: number, model: ModelConfig): { blocks: string[]; packed: PackedItem[] } {
+    const blocks: string[] = [];
+    const packed: PackedItem[] = [];
+    const budget = Math.floor(maxTokens * (1 - ESTIMATE_MARGIN));
+    let used = 0;
+
+    for (const item of items) {
+        const full = renderItem(item, item.content, "full");
+        const fullTokens = estimateTokens(full, model);
+        const remaining = budget - used;
+
+        let block: string | undefined;
+        let status: PackedStatus = "omitted";
+        if (item.note && !item.content) {
+            status = "omitted";
+        } else if (fullTokens <= remaining) {
+            block = full;
+            status = "full";
+        } else if (remaining >= MIN_PARTIAL_TOKENS) {
+            if (item.kind === "glob") {
+                const summary = renderItem(item, outline(item.content), "summarized");
+                block = estimateTokens(summary, model) <= remaining
+                    ? summary
+                    : renderItem(item, truncate(outline(item.content), remaining - MIN_PARTIAL_TOKENS / 2, model), "summarized");
+                status = "summarized";
+            } else {
+                block = renderItem(item, truncate(item.content, remaining - MIN_PARTIAL_TOKENS / 2, model), "truncated");
+                status = "truncated";
+            }
+        }
+
+        const tokens = block ? estimateTokens(block, model) : 0;
+        if (block) {
+            blocks.push(block);
+            used += tokens;
+        }
+        packed.push({
+            label: item.label,
+            status,
+            tokens,
+            original_tokens: fullTokens,
+            note: item.note ?? (status === "omitted" ? "over the token budget" : undefined)
+        });
+    }
+    return { blocks, packed };
+}
+
+function describe(item: PackedItem): string {
+    if (item.status === "omitted" && item.note && item.note !== "over the token budget") {
+        return `- ${item.label}: omitted (${item.note})`;
+    }
+    const size = item.status === "full" || item.status === "omitted"
+        ? `~${item.original_tokens} tokens`
+        : `~${item.tokens} of ~${item.original_tokens} tokens`;
+    return `- ${item.label}: ${item.status} (${size}${item.note ? `, ${item.note}` : ""})`;
+}
+
+// Read the requested files, glob matches and diff from the workspace and pack them into one
+// [WORKSPACE CONTEXT] message that fits the token budget, estimating tokens for `model`
+export async function buildWorkspaceContext(request: WorkspaceRequest, model: ModelConfig): Promise<WorkspaceContext | undefined> {
+    const sandbox = await createSandbox();
+    const maxTokens = request.max_tokens ?? getWorkspaceSettings().max_tokens ?? DEFAULT_MAX_TOKENS;
+
+    const items: ContextItem[] = [];
+    const seen = new Set<string>();
+    const add = (item: ContextItem) => {
+        if (!seen.has(item.label)) {
+            seen.add(item.label);
+            items.push(item);
+        }
+    };
+
+    for (const path of request.files ?? []) {
+        add(await readWorkspaceFile(sandbox, path, "file"));
+    }
+    if (request.git_diff) {
+        add(await readGitDiff(sandbox, request.git_diff));
+    }
+    for (const glob of request.globs ?? []) {
+        const remaining = MAX_GLOB_MATCHES - items.filter(item => item.kind === "glob").length;
+        for (const path of await expandGlob(sandbox, glob, Math.max(remaining, 0))) {
+            add(await readWorkspaceFile(sandbox, path, "glob"));
+        }
+    }
+    if (items.length === 0) {
+        return undefined;
+    }
+
+    const { blocks, packed } = pack(items, maxTokens, model);
+    const tokens = packed.reduce((sum, item) => sum + item.tokens, 0);
+    const text = [
+        "[WORKSPACE CONTEXT]",
+        `Files from the Executor's workspace (~${tokens} estimated tokens of a ${maxTokens}-token budget):`,
+        ...packed.map(describe),
+        "",
+        ...blocks
+    ].join("\n");
+    return { text, items: packed, tokens, max_tokens: maxTokens };
+}